@@ -0,0 +1,64 @@
+/**
+ * Runs a task once fewer than the limit of tasks are running, queueing it until then.
+ */
+export type Limiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+/**
+ * The work shared by every page in a single build, so that a file used by many pages is only read and processed once:
+ * the reads from disk, and the results of processing the stylesheets and scripts (eg. rebasing their urls, or escaping them for inlining).
+ */
+export interface AssetCache {
+    /** The results by a key describing the work, stored as soon as the work starts so that pages asking for it in the meantime wait for it */
+    results: Map<string, any>;
+
+    /** Limits how many files are read from disk at the same time */
+    limitReads: Limiter;
+}
+
+export function createAssetCache(maxConcurrentReads: number): AssetCache {
+    return {
+        results: new Map(),
+        limitReads: createLimiter(maxConcurrentReads),
+    };
+}
+
+export function createLimiter(concurrency: number): Limiter {
+    const queue: (() => void)[] = [];
+    let running = 0;
+
+    const next = () => {
+        if (running < Math.max(1, concurrency) && queue.length > 0) {
+            ++running;
+            queue.shift()();
+        }
+    };
+
+    return <T>(task: () => Promise<T>) => new Promise<T>((resolve, reject) => {
+        queue.push(() => {
+            Promise.resolve()
+                .then(task)
+                .then(resolve, reject)
+                .then(() => {
+                    --running;
+                    next();
+                });
+        });
+        next();
+    });
+}
+
+/**
+ * Gets the result of some work from the cache, doing the work (and storing its result) if it hasn't been done yet.
+ * Without a cache the work is always done.
+ */
+export function getCachedResult<T>(assetCache: AssetCache | undefined, key: string, work: () => T): T {
+    if (!assetCache) {
+        return work();
+    }
+
+    if (!assetCache.results.has(key)) {
+        assetCache.results.set(key, work());
+    }
+
+    return assetCache.results.get(key);
+}
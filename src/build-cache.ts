@@ -0,0 +1,133 @@
+import * as crypto from "crypto";
+import * as _handlebars from "handlebars";
+import { MapLike } from "./map-like";
+
+/**
+ * What a page was rendered from, as the hash of each of its dependencies by their kind and name,
+ * eg. `"template"`, `"partial:header"`, `"asset:/style.css"` or `"file:/path/to/icon.svg"`.
+ */
+export type Dependencies = MapLike<string>;
+
+/**
+ * Everything the plugin remembers from one build to the next (see the `cache` option).
+ * Every property is filled in by the plugin, so an empty object is a valid cache.
+ */
+export interface BuildCache {
+    /** The parsed templates and partials, by the hash of their source */
+    templates?: MapLike<hbs.AST.Program>;
+
+    /** The files read from disk, by their path */
+    files?: MapLike<CachedFile>;
+
+    /**
+     * The rendered pages (before bundling and minifying), by the path of their template and their output file.
+     * Only the pages output by the latest build are kept.
+     */
+    pages?: MapLike<CachedPage>;
+}
+
+export interface CachedFile {
+    /** The modification time of the file when it was read, in milliseconds */
+    mtime: number;
+    contents: Buffer;
+}
+
+export interface CachedPage {
+    dependencies: Dependencies;
+    html: string;
+    cssFiles: MapLike<string>;
+    jsFiles: MapLike<string>;
+}
+
+/**
+ * Hashes the contents of a dependency, where missing contents (eg. a file that doesn't exist) hash to `""`.
+ */
+export function hashContents(contents: string | Buffer | null | undefined): string {
+    if (contents === null || contents === undefined) {
+        return "";
+    }
+
+    return crypto.createHash("md5").update(contents).digest("hex");
+}
+
+/**
+ * Hashes a value by its JSON, or returns `null` if it can't be turned into JSON (eg. it is circular).
+ */
+export function hashValue(value: any): string | null {
+    try {
+        return hashContents(JSON.stringify(value) || "");
+    } catch (error) {
+        return null;
+    }
+}
+
+/**
+ * Compiles a template, reusing the parsed template from an earlier build with the same source.
+ * Only the syntax tree is kept, which is plain data, rather than the compiled code.
+ */
+export function compileCachedTemplate(handlebars: typeof _handlebars, source: string, templates: MapLike<hbs.AST.Program>): _handlebars.TemplateDelegate {
+    const hash = hashContents(source);
+    if (!(hash in templates)) {
+        templates[hash] = handlebars.parse(source);
+    }
+
+    return handlebars.compile(templates[hash]);
+}
+
+/**
+ * Wraps a function that reads a dependency, so that the hash of what it read is recorded in the dependencies under `kind:key`.
+ * Failed reads are recorded as missing, so that the file turning up later is noticed as well.
+ */
+export function trackReads<T extends string | Buffer | null>(
+    read: (key: string) => Promise<T>,
+    kind: string,
+    getDependencies: () => Dependencies | null,
+): (key: string) => Promise<T> {
+    return (key: string) => read(key).then((contents: T) => {
+        recordDependency(getDependencies(), `${kind}:${key}`, contents);
+        return contents;
+    }, (error: Error) => {
+        recordDependency(getDependencies(), `${kind}:${key}`, null);
+        throw error;
+    });
+}
+
+/**
+ * Same as `trackReads`, but for functions that read synchronously.
+ */
+export function trackReadsSync<T extends string | Buffer | null>(
+    read: (key: string) => T,
+    kind: string,
+    getDependencies: () => Dependencies | null,
+): (key: string) => T {
+    return (key: string) => {
+        let contents: T | null = null;
+        try {
+            contents = read(key);
+            return contents;
+        } finally {
+            recordDependency(getDependencies(), `${kind}:${key}`, contents);
+        }
+    };
+}
+
+export function recordDependency(dependencies: Dependencies | null, key: string, contents: string | Buffer | null) {
+    if (dependencies) {
+        dependencies[key] = hashContents(contents);
+    }
+}
+
+/**
+ * Whether a cached page is still current, ie. every one of its dependencies still has the same hash.
+ */
+export async function isPageCurrent(page: CachedPage, hashDependency: (key: string) => string | Promise<string>): Promise<boolean> {
+    const results = await Promise.all(Object.keys(page.dependencies).map(async (key: string) => {
+        try {
+            return await hashDependency(key) === page.dependencies[key];
+        } catch (error) {
+            return page.dependencies[key] === "";
+        }
+    }));
+
+    return results.every((result: boolean) => result);
+}
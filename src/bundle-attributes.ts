@@ -0,0 +1,49 @@
+import { HtmlStartTag, HtmlEdit, tokenizeHtml, getAttributeValue, applyEdits } from "./html-tokenizer";
+
+/**
+ * The attributes that control how a stylesheet <link> or <script> tag is bundled, which are never carried over to the output:
+ * - `data-bundle="skip"` keeps the tag pointing at its file, even when bundling
+ * - `data-bundle="inline"` bundles the tag into the page, even when bundling is turned off
+ * - `data-bundle-group="<name>"` only combines the tag with the other tags in the same group
+ */
+export const BUNDLE_ATTRIBUTES = ["data-bundle", "data-bundle-group"];
+
+/**
+ * Whether the tag should be bundled into the page, given whether tags are bundled by default.
+ */
+export function shouldBundle(tag: HtmlStartTag, bundleByDefault: boolean): boolean {
+    const mode = (getAttributeValue(tag, "data-bundle") || "").trim().toLowerCase();
+    return mode === "inline" || (bundleByDefault && mode !== "skip");
+}
+
+/**
+ * Gets the name of the group that the tag is combined with, or `""` for the default group.
+ */
+export function getBundleGroup(tag: HtmlStartTag): string {
+    return (getAttributeValue(tag, "data-bundle-group") || "").trim();
+}
+
+/**
+ * Removes the bundling attributes from the stylesheet <link> and <script> tags left in the page.
+ */
+export function removeBundleAttributes(html: string): string {
+    const edits: HtmlEdit[] = [];
+
+    for (const token of tokenizeHtml(html)) {
+        if (token.type === "startTag" && !token.inert && (token.name === "link" || token.name === "script")) {
+            for (const attribute of token.attributes) {
+                if (BUNDLE_ATTRIBUTES.indexOf(attribute.name) >= 0) {
+                    // Along with the whitespace before it
+                    let start = attribute.start;
+                    while (start > token.start && /\s/.test(html[start - 1])) {
+                        --start;
+                    }
+
+                    edits.push({ start, end: attribute.end, text: "" });
+                }
+            }
+        }
+    }
+
+    return applyEdits(html, edits);
+}
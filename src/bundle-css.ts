@@ -1,122 +1,196 @@
-import * as path from "path";
-import { promises as fs } from "fs";
 import { MapLike } from "./map-like";
-import { stringSearch, stringReplace, createXmlAttrib } from "./string-util";
-import { LINK_TAG_REGEX, XML_ATTRIB_REGEX, ABSOLUTE_URL_REGEX } from "./regex";
-
-export async function bundleCssPrep(html: string, jsFiles: MapLike<string>, baseUrl: string) {
+import { ResolveAsset, resolveAssetPath, relinkUrl } from "./resolve-asset";
+import { inlineCssImports } from "./css-import";
+import { createXmlAttrib } from "./string-util";
+import { escapeInlineStyle } from "./escape-inline";
+import { AssetCache, getCachedResult } from "./asset-cache";
+import { hashContents } from "./build-cache";
+import { createAssetError } from "./errors";
+import { BUNDLE_ATTRIBUTES, shouldBundle, getBundleGroup } from "./bundle-attributes";
+import { HtmlStartTag, HtmlEdit, tokenizeHtml, getAttribute, getAttributeValue, getAttributeValues, replaceAttributeValue, applyEdits } from "./html-tokenizer";
+import { WS_REGEX } from "./regex";
+
+/**
+ * Loads the stylesheets that will be bundled into the page (or every stylesheet, when `loadAll` is set, eg. for minifying them)
+ * into `cssFiles`. Only the stylesheets being bundled are passed through the `transform`.
+ */
+export async function bundleCssPrep(
+    html: string,
+    cssFiles: MapLike<string>,
+    baseUrl: string,
+    resolveAsset: ResolveAsset,
+    bundleByDefault: boolean,
+    loadAll: boolean,
+    transform?: (css: string, cssUrl: string) => string | Promise<string>,
+) {
     const promises: Promise<void>[] = [];
 
-    stringSearch(html, LINK_TAG_REGEX, (fullMatch: string, attribShort: string, attribLong: string) => {
-        const attributes = attribShort || attribLong;
-
-        // If the <link> tag does not contain rel="stylesheet", then don't replace it
-        if (!isCss(attributes)) return;
-
-        stringSearch(attributes, XML_ATTRIB_REGEX, (fullMatch: string, attrib: string, sQuoteValue: string, dQuoteValue: string) => {
-            if (attrib !== "href") {
-                return;
-            }
-
-            const value = (sQuoteValue || dQuoteValue || "").trim();
-            if (value && !ABSOLUTE_URL_REGEX.test(value)) {
-                const filePath = path.resolve(baseUrl, value.startsWith("/") ? value.slice(1) : value);
-                promises.push(
-                    fs.readFile(filePath, "utf8")
-                        .then((contents: string) => { jsFiles[filePath] = contents; })
-                );
-            }
-        });
-    });
+    for (const tag of findStylesheets(html)) {
+        const value = (getAttributeValue(tag, "href") || "").trim();
+        const bundle = shouldBundle(tag, bundleByDefault);
+        if (value && (bundle || loadAll)) {
+            const filePath = resolveAssetPath(value, baseUrl);
+            promises.push(
+                resolveAsset(value)
+                    .then((contents: string | null) => contents === null ? null : inlineCssImports(contents, value, baseUrl, resolveAsset))
+                    .then((contents: string | null) => contents === null || !transform || !bundle ? contents : transform(contents, value))
+                    .then((contents: string | null) => {
+                        if (contents !== null) {
+                            cssFiles[filePath] = contents;
+                        }
+                    }, (error: Error) => {
+                        throw createAssetError(error, value, filePath, html, tag.start, tag.end);
+                    })
+            );
+        }
+    }
 
     return Promise.all(promises);
 }
 
-export function bundleCss(html: string, cssFiles: MapLike<string>, baseUrl: string): string {
-    return stringReplace(html, LINK_TAG_REGEX, (tagMatch: string, attributes: string) => {
-        const outputAttributes: MapLike<string> = {};
-        let contents: string = "";
-
-        // If the <link> tag does not contain rel="stylesheet", then don't replace it
-        if (!isCss(attributes)) return tagMatch;
+export function bundleCss(html: string, cssFiles: MapLike<string>, baseUrl: string, bundleByDefault: boolean, assetCache?: AssetCache): string {
+    const edits: HtmlEdit[] = [];
 
-        stringSearch(attributes, XML_ATTRIB_REGEX, (attribMatch: string, attrib: string, sQuoteValue: string, dQuoteValue: string) => {
-            const value = (sQuoteValue || dQuoteValue || "").trim();
+    for (const tag of findStylesheets(html)) {
+        if (!shouldBundle(tag, bundleByDefault)) {
+            continue;
+        }
 
-            if (attrib === "href") {
-                const filePath = path.resolve(baseUrl, value.startsWith("/") ? value.slice(1) : value);
-                contents = cssFiles[filePath];
-            } else if (attrib !== "rel" && attrib !== "type") {
-                outputAttributes[attrib] = (sQuoteValue || dQuoteValue); // allow undefined
-            }
-        });
+        const filePath = resolveAssetPath((getAttributeValue(tag, "href") || "").trim(), baseUrl);
+        const contents = cssFiles[filePath];
 
         if (contents) {
-            return `<style${Object.entries(outputAttributes).map(createXmlAttrib).join("")}>${contents}</style>`;
-        } else {
-            return tagMatch;
+            edits.push({ start: tag.start, end: tag.end, text: `<style${createStyleAttributes(tag).map(createXmlAttrib).join("")}>${escapeCss(contents, filePath, assetCache)}</style>` });
         }
-    });
+    }
+
+    return applyEdits(html, edits);
 }
 
-const PLACEHOLDER = "<$STYLE$>";
-export function combineCss(html: string, cssFiles: MapLike<string>, baseUrl: string): string {
-    const outputAttributes: MapLike<string> = {};
-    const outputContents: string[] = [];
+interface StyleBucket {
+    key: string;
+    edit: HtmlEdit;
+    attributes: MapLike<string>;
+    contents: string[];
+}
 
-    let first: boolean = true;
-    html = stringReplace(html, LINK_TAG_REGEX, (tagMatch: string, attributes: string) => {
-        let contents: string = "";
+/**
+ * Combines each run of stylesheets next to each other with the same `media` into one <style> tag, in place of the first of them.
+ * Stylesheets with a `data-bundle-group` are only combined with the others in the same group (and media).
+ * Runs are broken by any stylesheet that isn't combined (eg. `data-bundle="skip"`) and by <style> tags,
+ * so that every stylesheet keeps its place in the cascade.
+ */
+export function combineCss(html: string, cssFiles: MapLike<string>, baseUrl: string, bundleByDefault: boolean, assetCache?: AssetCache): string {
+    const edits: HtmlEdit[] = [];
+    const bucketList: StyleBucket[] = [];
+    let bucket: StyleBucket | null = null;
+
+    for (const token of tokenizeHtml(html)) {
+        if (token.type !== "startTag" || token.inert) {
+            continue;
+        } else if (token.name === "style") {
+            bucket = null;
+            continue;
+        } else if (token.name !== "link" || !isCss(token)) {
+            continue;
+        }
 
-        // If the <link> tag does not contain rel="stylesheet", then don't replace it
-        if (!isCss(attributes)) return tagMatch;
+        const filePath = resolveAssetPath((getAttributeValue(token, "href") || "").trim(), baseUrl);
+        const contents = cssFiles[filePath];
+        if (!shouldBundle(token, bundleByDefault) || !contents) {
+            bucket = null;
+            continue;
+        }
 
-        stringSearch(attributes, XML_ATTRIB_REGEX, (attribMatch: string, attrib: string, sQuoteValue: string, dQuoteValue: string) => {
-            const value = (sQuoteValue || dQuoteValue || "").trim();
+        const outputAttributes: MapLike<string> = {};
+        for (const [attrib, value] of createStyleAttributes(token)) {
+            outputAttributes[attrib] = value;
+        }
 
-            if (attrib === "href") {
-                const filePath = path.resolve(baseUrl, value.startsWith("/") ? value.slice(1) : value);
-                contents = cssFiles[filePath];
-            } else if (attrib !== "rel" && attrib !== "type") {
-                outputAttributes[attrib] = (sQuoteValue || dQuoteValue); // allow undefined
-            }
-        });
+        // Stylesheets without a media query apply to all media
+        const media = (outputAttributes["media"] || "all").trim().toLowerCase().replace(WS_REGEX, " ");
+        const key = [getBundleGroup(token), media].join(":");
+        const edit: HtmlEdit = { start: token.start, end: token.end, text: "" };
+        edits.push(edit);
 
-        if (contents) {
-            outputContents.push(contents);
-
-            if (first) {
-                first = false;
-                return PLACEHOLDER;
-            } else {
-                return "";
-            }
-        } else {
-            return tagMatch;
+        if (!bucket || bucket.key !== key) {
+            bucket = { key, edit, attributes: {}, contents: [] };
+            bucketList.push(bucket);
         }
-    });
 
-    const output = `<style${Object.entries(outputAttributes).map(createXmlAttrib).join("")}>${outputContents.join("")}</style>`;
-    return html.replace(PLACEHOLDER, output);
+        Object.assign(bucket.attributes, outputAttributes);
+        bucket.contents.push(escapeCss(contents, filePath, assetCache));
+    }
+
+    for (const { edit, attributes, contents } of bucketList) {
+        // Kept apart by a line break, so that the end of one stylesheet doesn't run into the next
+        edit.text = `<style${Object.entries(attributes).map(createXmlAttrib).join("")}>${contents.join("\n")}</style>`;
+    }
+
+    return applyEdits(html, edits);
+}
+
+/**
+ * Finds the paths of the stylesheets that `bundleCss` and `combineCss` bundle into the page.
+ */
+export function findBundledCss(html: string, baseUrl: string, bundleByDefault: boolean): string[] {
+    return findStylesheets(html)
+        .filter((tag: HtmlStartTag) => shouldBundle(tag, bundleByDefault))
+        .map((tag: HtmlStartTag) => (getAttributeValue(tag, "href") || "").trim())
+        .filter((value: string) => value)
+        .map((value: string) => resolveAssetPath(value, baseUrl));
 }
 
-function isCss(attributes: string): boolean {
-    let isCss: boolean = false;
+/**
+ * Points the `href` of each stylesheet <link> tag whose file is found in `cssFiles` at a renamed copy of that file,
+ * where `renameFile` is given the original file path and the contents, and returns the new file name.
+ */
+export function relinkCss(html: string, cssFiles: MapLike<string>, baseUrl: string, renameFile: (filePath: string, contents: string) => string): string {
+    const edits: HtmlEdit[] = [];
+
+    for (const tag of findStylesheets(html)) {
+        const href = getAttribute(tag, "href");
+        const value = (href && href.value || "").trim();
+        const filePath = resolveAssetPath(value, baseUrl);
+
+        if (value && filePath in cssFiles) {
+            edits.push(replaceAttributeValue(href, relinkUrl(value, renameFile(filePath, cssFiles[filePath]))));
+        }
+    }
 
-    stringSearch(attributes, XML_ATTRIB_REGEX, (fullMatch: string, attrib: string, sQuoteValue: string, dQuoteValue: string) => {
-        const value = (sQuoteValue || dQuoteValue || "").trim();
+    return applyEdits(html, edits);
+}
 
-        if (attrib === "rel") {
-            if (value === "stylesheet") {
-                isCss = true;
-            } else {
-                isCss = false;
-            }
+/**
+ * Finds the <link rel="stylesheet"> tags that are loaded with the page.
+ */
+export function findStylesheets(html: string): HtmlStartTag[] {
+    const stylesheets: HtmlStartTag[] = [];
 
-            // Stop early
-            return true;
+    for (const token of tokenizeHtml(html)) {
+        if (token.type === "startTag" && token.name === "link" && !token.inert && isCss(token)) {
+            stylesheets.push(token);
         }
-    });
+    }
+
+    return stylesheets;
+}
+
+function isCss(tag: HtmlStartTag): boolean {
+    return (getAttributeValue(tag, "rel") || "").trim().toLowerCase() === "stylesheet";
+}
+
+/**
+ * The attributes of a <link> tag that are carried over to the <style> tag replacing it.
+ */
+function createStyleAttributes(tag: HtmlStartTag): [string, string][] {
+    return Object.entries(getAttributeValues(tag))
+        .filter(([attrib]: [string, string]) => attrib !== "href" && attrib !== "rel" && attrib !== "type" && BUNDLE_ATTRIBUTES.indexOf(attrib) < 0);
+}
 
-    return isCss;
+/**
+ * Escapes a stylesheet for inlining, only once for each distinct stylesheet in the build.
+ */
+function escapeCss(contents: string, filePath: string, assetCache?: AssetCache): string {
+    return getCachedResult(assetCache, `escape-css\0${filePath}\0${hashContents(contents)}`, () => escapeInlineStyle(contents, filePath));
 }
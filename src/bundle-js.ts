@@ -1,94 +1,230 @@
-import * as path from "path";
-import { promises as fs } from "fs";
 import { MapLike } from "./map-like";
-import { stringSearch, stringReplace, createXmlAttrib } from "./string-util";
-import { SCRIPT_TAG_REGEX, XML_ATTRIB_REGEX, ABSOLUTE_URL_REGEX } from "./regex";
-
-export async function bundleJsPrep(html: string, jsFiles: MapLike<string>, baseUrl: string) {
+import { ResolveAsset, resolveAssetPath, relinkUrl } from "./resolve-asset";
+import { createXmlAttrib } from "./string-util";
+import { escapeInlineScript } from "./escape-inline";
+import { AssetCache, getCachedResult } from "./asset-cache";
+import { hashContents } from "./build-cache";
+import { createAssetError } from "./errors";
+import { BUNDLE_ATTRIBUTES, shouldBundle, getBundleGroup } from "./bundle-attributes";
+import { HtmlStartTag, HtmlEdit, tokenizeHtml, getAttribute, getAttributeValue, getAttributeValues, replaceAttributeValue, applyEdits } from "./html-tokenizer";
+import { JS_MIME_TYPE_REGEX } from "./regex";
+
+/**
+ * Loads the scripts that will be bundled into the page (or every script, when `loadAll` is set, eg. for minifying them)
+ * into `jsFiles`.
+ */
+export async function bundleJsPrep(html: string, jsFiles: MapLike<string>, baseUrl: string, resolveAsset: ResolveAsset, bundleByDefault: boolean, loadAll: boolean) {
     const promises: Promise<void>[] = [];
 
-    stringSearch(html, SCRIPT_TAG_REGEX, (tagMatch: string, attribShort: string, attribLong: string) => {
-        const attributes = attribShort || attribLong;
-
-        stringSearch(attributes, XML_ATTRIB_REGEX, (attribMatch: string, attrib: string, sQuoteValue: string, dQuoteValue: string) => {
-            if (attrib !== "src") {
-                return;
-            }
-
-            const value = (sQuoteValue || dQuoteValue || "").trim();
-            if (value && !ABSOLUTE_URL_REGEX.test(value)) {
-                const filePath = path.resolve(baseUrl, value.startsWith("/") ? value.slice(1) : value);
-                promises.push(
-                    fs.readFile(filePath, "utf8")
-                        .then((contents: string) => { jsFiles[filePath] = contents; })
-                );
-            }
-        });
-    });
+    for (const tag of findScripts(html)) {
+        const value = (getAttributeValue(tag, "src") || "").trim();
+        if (value && (loadAll || shouldBundle(tag, bundleByDefault))) {
+            const filePath = resolveAssetPath(value, baseUrl);
+            promises.push(
+                resolveAsset(value)
+                    .then((contents: string | null) => {
+                        if (contents !== null) {
+                            jsFiles[filePath] = contents;
+                        }
+                    }, (error: Error) => {
+                        throw createAssetError(error, value, filePath, html, tag.start, tag.end);
+                    })
+            );
+        }
+    }
 
     return Promise.all(promises);
 }
 
-export function bundleJs(html: string, jsFiles: MapLike<string>, baseUrl: string): string {
-    return stringReplace(html, SCRIPT_TAG_REGEX, (tagMatch: string, selfClosingAttribs: string, xmlAttribs: string) => {
-        const attributes = (selfClosingAttribs || xmlAttribs || "").trim();
-        const outputAttributes: MapLike<string> = {};
-        let contents: string = "";
+export function bundleJs(html: string, jsFiles: MapLike<string>, baseUrl: string, bundleByDefault: boolean, assetCache?: AssetCache): string {
+    const edits: HtmlEdit[] = [];
 
-        stringSearch(attributes, XML_ATTRIB_REGEX, (attribMatch: string, attrib: string, sQuoteValue: string, dQuoteValue: string) => {
-            const value = (sQuoteValue || dQuoteValue || "").trim();
+    for (const tag of findScripts(html)) {
+        if (!shouldBundle(tag, bundleByDefault)) {
+            continue;
+        }
 
-            if (attrib === "src") {
-                const filePath = path.resolve(baseUrl, value.startsWith("/") ? value.slice(1) : value);
-                contents = jsFiles[filePath];
-            } else {
-                outputAttributes[attrib] = (sQuoteValue || dQuoteValue); // allow undefined
-            }
-        });
+        const filePath = resolveAssetPath((getAttributeValue(tag, "src") || "").trim(), baseUrl);
+        const contents = jsFiles[filePath];
 
         if (contents) {
-            return `<script${Object.entries(outputAttributes).map(createXmlAttrib).join("")}>${contents}</script>`;
-        } else {
-            return tagMatch;
+            edits.push({ start: tag.start, end: tag.elementEnd, text: `<script${createScriptAttributes(tag).map(createXmlAttrib).join("")}>${escapeJs(contents, filePath, assetCache)}</script>` });
         }
-    });
+    }
+
+    return applyEdits(html, edits);
 }
 
-const PLACEHOLDER = "<$SCRIPT$>";
-export function combineJs(html: string, jsFiles: MapLike<string>, baseUrl: string): string {
-    const outputAttributes: MapLike<string> = {};
-    const outputContents: string[] = [];
+interface ScriptBucket {
+    key: string;
+    edit: HtmlEdit;
+    attributes: MapLike<string>;
+    contents: string[];
+}
 
-    let first: boolean = true;
-    html = stringReplace(html, SCRIPT_TAG_REGEX, (tagMatch: string, selfClosingAttribs: string, xmlAttribs: string) => {
-        const attributes = (selfClosingAttribs || xmlAttribs || "").trim();
-        let contents: string = "";
+/**
+ * Combines each run of classic scripts next to each other that are run the same way into one <script> tag, in place of the first of them:
+ * they are split into the ones run synchronously, deferred, or async (along with `nomodule` fallbacks kept apart from the rest).
+ * Modules are each inlined into a <script> tag of their own, since their top-level names and imports can't be shared with other modules.
+ * Scripts with a `data-bundle-group` are only combined with the others in the same group that run the same way.
+ * Runs are broken by any script that isn't combined (eg. an inline script, or one from a CDN), so that every script still runs in order.
+ *
+ * Inline scripts can't be deferred, so deferred classic scripts are instead moved to the end of the <body>, to still run after the page has been parsed.
+ * That would run them ahead of the deferred scripts and modules before them, so once one of those is found the rest are left as they are.
+ */
+export function combineJs(html: string, jsFiles: MapLike<string>, baseUrl: string, bundleByDefault: boolean, assetCache?: AssetCache): string {
+    const edits: HtmlEdit[] = [];
+    const bucketList: ScriptBucket[] = [];
+    const deferredBuckets: ScriptBucket[] = [];
+    const bodyEnd = findBodyEnd(html);
+    let bucket: ScriptBucket | null = null;
+    let deferredBucket: ScriptBucket | null = null;
+    let deferredQueued = false;
+
+    for (const tag of findScripts(html)) {
+        const outputAttributes: MapLike<string> = {};
+        for (const [attrib, value] of createScriptAttributes(tag)) {
+            outputAttributes[attrib] = value;
+        }
 
-        stringSearch(attributes, XML_ATTRIB_REGEX, (attribMatch: string, attrib: string, sQuoteValue: string, dQuoteValue: string) => {
-            const value = (sQuoteValue || dQuoteValue || "").trim();
+        const src = (getAttributeValue(tag, "src") || "").trim();
+        const filePath = resolveAssetPath(src, baseUrl);
+        const contents = src && jsFiles[filePath];
+        const type = (outputAttributes["type"] || "").trim().toLowerCase();
+        const isModule = type === "module";
+        const isAsync = "async" in outputAttributes;
+        const isDeferred = !isAsync && (isModule || (!!src && "defer" in outputAttributes));
+
+        // Leave data blocks (eg. templates or JSON) alone
+        const combine = shouldBundle(tag, bundleByDefault) && contents && (!type || isModule || JS_MIME_TYPE_REGEX.test(type))
+            && !(isDeferred && !isModule && deferredQueued);
+
+        if (isDeferred && (isModule || !combine)) {
+            // Runs after the page has been parsed, along with the deferred scripts after it
+            deferredQueued = true;
+        }
 
-            if (attrib === "src") {
-                const filePath = path.resolve(baseUrl, value.startsWith("/") ? value.slice(1) : value);
-                contents = jsFiles[filePath];
-            } else {
-                outputAttributes[attrib] = (sQuoteValue || dQuoteValue); // allow undefined
-            }
-        });
+        if (!combine) {
+            bucket = null;
+            continue;
+        }
 
-        if (contents) {
-            outputContents.push(contents);
+        const key = [
+            getBundleGroup(tag),
+            isModule ? "module" : "classic",
+            isAsync ? "async" : isDeferred ? "defer" : "sync",
+            "nomodule" in outputAttributes ? "nomodule" : "",
+        ].join(":");
+
+        if (!isModule) {
+            // Neither of these do anything for inline classic scripts
+            delete outputAttributes["async"];
+            delete outputAttributes["defer"];
+        }
+
+        const edit: HtmlEdit = { start: tag.start, end: tag.elementEnd, text: "" };
+        edits.push(edit);
 
-            if (first) {
-                first = false;
-                return PLACEHOLDER;
-            } else {
-                return "";
+        let target: ScriptBucket;
+        if (isDeferred && !isModule) {
+            bucket = null;
+            if (!deferredBucket || deferredBucket.key !== key) {
+                deferredBucket = { key, edit: { start: bodyEnd, end: bodyEnd, text: "" }, attributes: {}, contents: [] };
+                deferredBuckets.push(deferredBucket);
             }
+            target = deferredBucket;
         } else {
-            return tagMatch;
+            if (!bucket || bucket.key !== key || isModule) {
+                bucket = { key, edit, attributes: {}, contents: [] };
+                bucketList.push(bucket);
+            }
+            target = bucket;
         }
-    });
 
-    const output = `<script${Object.entries(outputAttributes).map(createXmlAttrib).join("")}>${outputContents.join("")}</script>`;
-    return html.replace(PLACEHOLDER, output);
+        Object.assign(target.attributes, outputAttributes);
+        target.contents.push(escapeJs(contents, filePath, assetCache));
+    }
+
+    for (const { edit, attributes, contents } of [...bucketList, ...deferredBuckets]) {
+        // Kept apart by a line break and a `;`, so that a trailing `//` comment or missing `;` doesn't run into the next script
+        edit.text = `<script${Object.entries(attributes).map(createXmlAttrib).join("")}>${contents.join("\n;")}</script>`;
+    }
+
+    return applyEdits(html, [...edits, ...deferredBuckets.map((deferred: ScriptBucket) => deferred.edit)]);
+}
+
+/**
+ * Finds the paths of the scripts that `bundleJs` and `combineJs` bundle into the page.
+ */
+export function findBundledJs(html: string, baseUrl: string, bundleByDefault: boolean): string[] {
+    return findScripts(html)
+        .filter((tag: HtmlStartTag) => shouldBundle(tag, bundleByDefault))
+        .map((tag: HtmlStartTag) => (getAttributeValue(tag, "src") || "").trim())
+        .filter((value: string) => value)
+        .map((value: string) => resolveAssetPath(value, baseUrl));
+}
+
+/**
+ * Points the `src` of each <script> tag whose file is found in `jsFiles` at a renamed copy of that file,
+ * where `renameFile` is given the original file path and the contents, and returns the new file name.
+ */
+export function relinkJs(html: string, jsFiles: MapLike<string>, baseUrl: string, renameFile: (filePath: string, contents: string) => string): string {
+    const edits: HtmlEdit[] = [];
+
+    for (const tag of findScripts(html)) {
+        const src = getAttribute(tag, "src");
+        const value = (src && src.value || "").trim();
+        const filePath = resolveAssetPath(value, baseUrl);
+
+        if (value && filePath in jsFiles) {
+            edits.push(replaceAttributeValue(src, relinkUrl(value, renameFile(filePath, jsFiles[filePath]))));
+        }
+    }
+
+    return applyEdits(html, edits);
+}
+
+/**
+ * Finds the <script> tags that are loaded with the page.
+ */
+export function findScripts(html: string): HtmlStartTag[] {
+    const scripts: HtmlStartTag[] = [];
+
+    for (const token of tokenizeHtml(html)) {
+        if (token.type === "startTag" && token.name === "script" && !token.inert) {
+            scripts.push(token);
+        }
+    }
+
+    return scripts;
+}
+
+/**
+ * Finds where the closing </body> tag is, or the end of the html if there isn't one.
+ */
+function findBodyEnd(html: string): number {
+    let bodyEnd = html.length;
+
+    for (const token of tokenizeHtml(html)) {
+        if (token.type === "endTag" && token.name === "body" && !token.inert) {
+            bodyEnd = token.start;
+        }
+    }
+
+    return bodyEnd;
+}
+
+/**
+ * The attributes of a <script> tag that are carried over to the inline <script> tag replacing it.
+ */
+function createScriptAttributes(tag: HtmlStartTag): [string, string][] {
+    return Object.entries(getAttributeValues(tag))
+        .filter(([attrib]: [string, string]) => attrib !== "src" && BUNDLE_ATTRIBUTES.indexOf(attrib) < 0);
+}
+
+/**
+ * Escapes a script for inlining, only once for each distinct script in the build.
+ */
+function escapeJs(contents: string, filePath: string, assetCache?: AssetCache): string {
+    return getCachedResult(assetCache, `escape-js\0${filePath}\0${hashContents(contents)}`, () => escapeInlineScript(contents, filePath));
 }
@@ -0,0 +1,97 @@
+import * as path from "path";
+import * as Vinyl from "vinyl";
+import * as _handlebars from "handlebars";
+import minimatch = require("minimatch");
+
+import { MapLike } from "./map-like";
+import { Collection } from "./options";
+import { parseFrontMatter } from "./front-matter";
+
+export interface CollectionPage {
+    outputFileName: string;
+    context: any;
+}
+
+/**
+ * Whether a file passed through the stream is one of the items of a collection, given its path relative to the glob base.
+ */
+export function isCollectionFile(collection: Collection, relativePath: string): boolean {
+    return !!collection.files && minimatch(relativePath.split(path.sep).join("/"), collection.files);
+}
+
+/**
+ * Creates the item for a file in a collection, from its front-matter, contents and path.
+ */
+export function createFileItem(file: Vinyl): MapLike<any> {
+    const { attributes, body } = parseFrontMatter((file.contents as Buffer).toString("utf8"), file.path);
+    const relativePath = file.relative.split(path.sep).join("/");
+
+    return Object.assign({}, attributes, {
+        content: body,
+        name: path.posix.basename(relativePath, path.posix.extname(relativePath)),
+        relativePath,
+    });
+}
+
+/**
+ * Gets the items of a collection, from either the `items` array, the array they name in the template's data, or the files of the collection.
+ */
+export function getCollectionItems(collection: Collection, context: MapLike<any>, files: Vinyl[]): any[] {
+    if (Array.isArray(collection.items)) {
+        return collection.items;
+    } else if (typeof collection.items === "string") {
+        const items = context[collection.items];
+        if (!Array.isArray(items)) {
+            throw new Error(`The items "${collection.items}" of the collection for "${collection.template}" must be an array in the template's data`);
+        }
+
+        return items;
+    } else {
+        return [...files]
+            .sort((a: Vinyl, b: Vinyl) => a.relative < b.relative ? -1 : a.relative > b.relative ? 1 : 0)
+            .map(createFileItem);
+    }
+}
+
+/**
+ * Creates the output file name and context of each page in a collection, linking each page to the ones before and after it.
+ * The links are URLs from the root of the output, eg. `"/blog/page/2.html"`.
+ */
+export function createCollectionPages(collection: Collection, items: any[], context: MapLike<any>, hbs: typeof _handlebars): CollectionPage[] {
+    const pathTemplate = hbs.compile(collection.path, { noEscape: true });
+    const firstPathTemplate = collection.firstPagePath ? hbs.compile(collection.firstPagePath, { noEscape: true }) : pathTemplate;
+    const pages: CollectionPage[] = [];
+
+    if (collection.pageSize && collection.pageSize > 0) {
+        const total = Math.max(1, Math.ceil(items.length / collection.pageSize));
+        for (let i = 0; i < total; ++i) {
+            const pageContext = Object.assign({}, context, {
+                items: items.slice(i * collection.pageSize, (i + 1) * collection.pageSize),
+                pagination: { page: i + 1, total, prev: null, next: null },
+            });
+
+            pages.push({ outputFileName: (i === 0 ? firstPathTemplate : pathTemplate)(pageContext), context: pageContext });
+        }
+    } else {
+        items.forEach((item: any, i: number) => {
+            const pageContext = Object.assign({}, context, item, {
+                item,
+                pagination: { page: i + 1, total: items.length, prev: null, next: null },
+            });
+
+            pages.push({ outputFileName: pathTemplate(pageContext), context: pageContext });
+        });
+    }
+
+    // Link the pages together, now that all of their paths are known
+    pages.forEach((page: CollectionPage, i: number) => {
+        page.context.pagination.prev = i > 0 ? createPageUrl(pages[i - 1].outputFileName) : null;
+        page.context.pagination.next = i < pages.length - 1 ? createPageUrl(pages[i + 1].outputFileName) : null;
+    });
+
+    return pages;
+}
+
+function createPageUrl(outputFileName: string): string {
+    return "/" + outputFileName.split(path.sep).join("/").replace(/^\/+/, "");
+}
@@ -0,0 +1,95 @@
+import * as crypto from "crypto";
+import * as url from "url";
+import { MapLike } from "./map-like";
+import { HtmlEdit, tokenizeHtml, getAttributeValue, applyEdits } from "./html-tokenizer";
+import { ABSOLUTE_URL_REGEX, JS_MIME_TYPE_REGEX } from "./regex";
+
+/**
+ * The sources each Content-Security-Policy directive needs to allow for a page to keep working without `'unsafe-inline'`,
+ * eg. `{ "script-src": ["'self'", "'sha256-...'"], "style-src": ["'self'"] }`.
+ */
+export type CspSources = MapLike<string[]>;
+
+/**
+ * Collects the sources needed to load the scripts and styles of a page:
+ * the SHA-256 hashes of every inline <script> and <style>, along with the hashes of `style` and event handler attributes
+ * (which also need `'unsafe-hashes'`), `'self'`, and the origin of every script and stylesheet loaded from another site.
+ */
+export function createCspSources(html: string): CspSources {
+    const scriptSrc = new Set(["'self'"]);
+    const styleSrc = new Set(["'self'"]);
+
+    for (const token of tokenizeHtml(html)) {
+        if (token.type !== "startTag" || token.inert) {
+            continue;
+        }
+
+        const contents = html.slice(token.contentStart, token.contentEnd);
+        if (token.name === "script") {
+            const src = (getAttributeValue(token, "src") || "").trim();
+            const type = (getAttributeValue(token, "type") || "").trim().toLowerCase();
+
+            if (src) {
+                addOrigin(scriptSrc, src);
+            } else if (!type || type === "module" || JS_MIME_TYPE_REGEX.test(type)) {
+                // Data blocks (eg. templates or JSON) are never run, so they don't need to be allowed
+                scriptSrc.add(createHashSource(contents));
+            }
+        } else if (token.name === "style") {
+            styleSrc.add(createHashSource(contents));
+        } else if (token.name === "link" && (getAttributeValue(token, "rel") || "").trim().toLowerCase() === "stylesheet") {
+            addOrigin(styleSrc, (getAttributeValue(token, "href") || "").trim());
+        }
+
+        for (const attribute of token.attributes) {
+            if (attribute.name === "style" && attribute.value) {
+                styleSrc.add("'unsafe-hashes'").add(createHashSource(attribute.value));
+            } else if (attribute.name.startsWith("on") && attribute.value) {
+                scriptSrc.add("'unsafe-hashes'").add(createHashSource(attribute.value));
+            }
+        }
+    }
+
+    return {
+        "script-src": [...scriptSrc],
+        "style-src": [...styleSrc],
+    };
+}
+
+/**
+ * Adds a Content-Security-Policy <meta> tag allowing the given sources to the start of the <head>
+ * (or the start of the page, if it doesn't have one), so that it applies to every script and style after it.
+ */
+export function addCspMetaTag(html: string, sources: CspSources): string {
+    const policy = Object.entries(sources)
+        .map(([directive, values]: [string, string[]]) => [directive, ...values].join(" "))
+        .join("; ");
+    let index = 0;
+
+    for (const token of tokenizeHtml(html)) {
+        if (token.type === "startTag" && (token.name === "head" || token.name === "html")) {
+            index = token.end;
+
+            if (token.name === "head") {
+                break;
+            }
+        }
+    }
+
+    const edit: HtmlEdit = { start: index, end: index, text: `<meta http-equiv="Content-Security-Policy" content="${policy}">` };
+    return applyEdits(html, [edit]);
+}
+
+function createHashSource(contents: string): string {
+    return `'sha256-${crypto.createHash("sha256").update(contents, "utf8").digest("base64")}'`;
+}
+
+function addOrigin(sources: Set<string>, value: string) {
+    if (ABSOLUTE_URL_REGEX.test(value)) {
+        // Protocol-relative URLs are allowed by their host alone, which matches the scheme of the page
+        const parsedUrl = url.parse(value, false, true);
+        if (parsedUrl.host) {
+            sources.add(parsedUrl.protocol ? `${parsedUrl.protocol}//${parsedUrl.host}` : parsedUrl.host);
+        }
+    }
+}
@@ -0,0 +1,149 @@
+import * as url from "url";
+import { PLUGIN_NAME } from "./options";
+import { ResolveAsset, resolveAssetPath } from "./resolve-asset";
+import { rebaseCssUrls } from "./css-urls";
+import { CSS_IMPORT_REGEX, CSS_CHARSET_REGEX } from "./regex";
+
+interface InlinedCss {
+    css: string;
+
+    /**
+     * The @import rules that could not be resolved, which need to be moved to the top of the outermost stylesheet to stay valid.
+     */
+    hoistedImports: string[];
+}
+
+/**
+ * Recursively replaces the @import rules in a stylesheet with the contents of the stylesheets they import,
+ * wrapping them in @media, @supports and @layer rules to keep the conditions of the import.
+ * Stylesheets that are imported more than once are only included the first time, and circular imports are dropped.
+ * The `url()` references in the imported stylesheets are rebased to keep pointing at the same files.
+ * Imports that cannot be resolved (eg. absolute URLs) are left as they are.
+ */
+export async function inlineCssImports(css: string, cssUrl: string, baseUrl: string, resolveAsset: ResolveAsset): Promise<string> {
+    const filePath = resolveAssetPath(cssUrl, baseUrl);
+    const { css: inlinedCss, hoistedImports } = await inlineImports(css, cssUrl, baseUrl, resolveAsset, new Set([filePath]), [filePath]);
+
+    if (hoistedImports.length > 0) {
+        return `${hoistedImports.join("\n")}\n${inlinedCss}`;
+    } else {
+        return inlinedCss;
+    }
+}
+
+async function inlineImports(
+    css: string,
+    cssUrl: string,
+    baseUrl: string,
+    resolveAsset: ResolveAsset,
+    imported: Set<string>,
+    importStack: string[],
+): Promise<InlinedCss> {
+    const output: string[] = [];
+    const hoistedImports: string[] = [];
+    let inlined = false;
+    let prevIndex = 0;
+
+    // The imports are followed one at a time, so that the first occurrence of a stylesheet is the one that is kept
+    const regex = new RegExp(CSS_IMPORT_REGEX.source, CSS_IMPORT_REGEX.flags);
+    let match: RegExpExecArray;
+    while (match = regex.exec(css)) {
+        const [importMatch, sQuoteUrl, dQuoteUrl, unquotedUrl, sQuoteString, dQuoteString, conditions] = match;
+        const importUrl = url.resolve(cssUrl, (sQuoteUrl || dQuoteUrl || unquotedUrl || sQuoteString || dQuoteString || "").trim());
+        const importPath = resolveAssetPath(importUrl, baseUrl);
+
+        output.push(css.slice(prevIndex, match.index));
+        prevIndex = match.index + importMatch.length;
+
+        if (importStack.indexOf(importPath) >= 0) {
+            console.warn(`${PLUGIN_NAME}: warning, circular @import of "${importUrl}" from "${cssUrl}", skipping`);
+            continue;
+        }
+
+        if (imported.has(importPath)) {
+            // Already included earlier on
+            continue;
+        }
+
+        const contents = await resolveAsset(importUrl);
+        if (contents === null) {
+            if (inlined) {
+                hoistedImports.push(importMatch);
+            } else {
+                output.push(importMatch);
+            }
+            continue;
+        }
+
+        imported.add(importPath);
+        inlined = true;
+
+        const nested = await inlineImports(contents.replace(CSS_CHARSET_REGEX, ""), importUrl, baseUrl, resolveAsset, imported, [...importStack, importPath]);
+        hoistedImports.push(...nested.hoistedImports);
+        output.push(wrapInConditions(rebaseCssUrls(nested.css, importUrl, cssUrl), conditions.trim()));
+    }
+
+    output.push(css.slice(prevIndex));
+    return { css: output.join(""), hoistedImports };
+}
+
+/**
+ * Wraps the css in the at-rules matching the conditions of an @import rule,
+ * eg. `layer(base) supports(display: grid) screen` becomes `@media screen { @supports (display: grid) { @layer base { ... } } }`.
+ */
+function wrapInConditions(css: string, conditions: string): string {
+    let layer: string | undefined;
+    let supports: string | undefined;
+
+    const layerMatch = /^layer\b/i.exec(conditions);
+    if (layerMatch) {
+        conditions = conditions.slice(layerMatch[0].length);
+
+        if (conditions.startsWith("(")) {
+            const end = findClosingParen(conditions, 0);
+            layer = conditions.slice(1, end).trim();
+            conditions = conditions.slice(end + 1);
+        } else {
+            layer = "";
+        }
+
+        conditions = conditions.trim();
+    }
+
+    const supportsMatch = /^supports\s*\(/i.exec(conditions);
+    if (supportsMatch) {
+        const start = supportsMatch[0].length - 1;
+        const end = findClosingParen(conditions, start);
+        supports = conditions.slice(start + 1, end).trim();
+        conditions = conditions.slice(end + 1).trim();
+    }
+
+    if (layer !== undefined) {
+        css = `@layer${layer ? " " + layer : ""} {\n${css}\n}`;
+    }
+
+    if (supports !== undefined) {
+        css = `@supports (${supports}) {\n${css}\n}`;
+    }
+
+    if (conditions) {
+        css = `@media ${conditions} {\n${css}\n}`;
+    }
+
+    return css;
+}
+
+function findClosingParen(value: string, start: number): number {
+    let depth = 0;
+    for (let i = start; i < value.length; ++i) {
+        if (value[i] === "(") {
+            ++depth;
+        } else if (value[i] === ")") {
+            if (--depth === 0) {
+                return i;
+            }
+        }
+    }
+
+    return value.length;
+}
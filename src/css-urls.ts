@@ -0,0 +1,79 @@
+import * as path from "path";
+import * as url from "url";
+import { ReadBinaryFile } from "./read-file";
+import { resolveAssetPath } from "./resolve-asset";
+import { createDataUri, getMimeType } from "./mime-types";
+import { stringReplaceAsync } from "./string-util";
+import { CSS_URL_REGEX, ABSOLUTE_URL_REGEX, URL_SCHEME_REGEX } from "./regex";
+
+/**
+ * Rewrites the relative `url()` references in a stylesheet that was at `fromUrl`, so that they still point at the same files from `toUrl`.
+ * Both URLs are relative to the `baseUrl`, the same as the `href` of a <link> tag.
+ */
+export function rebaseCssUrls(css: string, fromUrl: string, toUrl: string): string {
+    const fromRootUrl = toRootUrl(fromUrl);
+    const toDir = path.posix.dirname(toRootUrl(toUrl));
+
+    if (path.posix.dirname(fromRootUrl) === toDir) {
+        return css;
+    }
+
+    return css.replace(CSS_URL_REGEX, (urlMatch: string, sQuoteValue: string, dQuoteValue: string, unquotedValue: string) => {
+        const value = (sQuoteValue || dQuoteValue || unquotedValue || "").trim();
+        if (!isRelativeUrl(value)) {
+            return urlMatch;
+        }
+
+        let rebasedUrl = url.resolve(fromRootUrl, value);
+        if (!ABSOLUTE_URL_REGEX.test(rebasedUrl)) {
+            rebasedUrl = path.posix.relative(toDir, rebasedUrl);
+        }
+
+        return createCssUrl(rebasedUrl, sQuoteValue !== undefined ? "'" : dQuoteValue !== undefined ? "\"" : "");
+    });
+}
+
+/**
+ * Replaces the relative `url()` references in a stylesheet with `data:` URIs,
+ * for the files (eg. images and fonts) that are smaller than `maxSize` bytes.
+ */
+export function inlineCssUrls(css: string, cssUrl: string, baseUrl: string, readBinaryFile: ReadBinaryFile, maxSize: number): Promise<string> {
+    const cssRootUrl = toRootUrl(cssUrl);
+
+    return stringReplaceAsync(css, CSS_URL_REGEX, async (urlMatch: string, sQuoteValue: string, dQuoteValue: string, unquotedValue: string) => {
+        const value = (sQuoteValue || dQuoteValue || unquotedValue || "").trim();
+        if (!isRelativeUrl(value) || value.indexOf("#") >= 0) {
+            // Fragments usually refer to a part of the file (eg. an SVG sprite), which can't be kept in a data URI
+            return urlMatch;
+        }
+
+        const resolvedUrl = url.resolve(cssRootUrl, value).replace(/\?.*$/, "");
+        const filePath = resolveAssetPath(resolvedUrl, baseUrl);
+        if (!getMimeType(filePath)) {
+            return urlMatch;
+        }
+
+        try {
+            const contents = await readBinaryFile(filePath);
+            if (contents.length < maxSize) {
+                return createCssUrl(createDataUri(filePath, contents), "\"");
+            }
+        } catch (error) {
+            // Leave missing files for the browser to complain about
+        }
+
+        return urlMatch;
+    });
+}
+
+function isRelativeUrl(value: string): boolean {
+    return !!value && !value.startsWith("/") && !value.startsWith("#") && !ABSOLUTE_URL_REGEX.test(value) && !URL_SCHEME_REGEX.test(value);
+}
+
+function toRootUrl(value: string): string {
+    return ABSOLUTE_URL_REGEX.test(value) || value.startsWith("/") ? value : `/${value}`;
+}
+
+function createCssUrl(value: string, quote: string): string {
+    return `url(${quote}${value}${quote})`;
+}
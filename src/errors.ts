@@ -0,0 +1,141 @@
+import * as PluginError from "plugin-error";
+import { PLUGIN_NAME } from "./options";
+
+/**
+ * Where an error came from. `lineNumber` and `column` both start from 1.
+ */
+export interface ErrorLocation {
+    fileName?: string;
+    lineNumber?: number;
+    column?: number;
+    assetPath?: string;
+
+    /** Whether the line and column are of the page as it was rendered, since the tag could not be found in any of the sources */
+    rendered?: boolean;
+}
+
+/**
+ * The errors emitted by the plugin, with the parts of their location that `PluginError` has no option for.
+ */
+export interface BuildError extends PluginError.SimplePluginError {
+    column?: number;
+    assetPath?: string;
+
+    /** The errors collected from the whole build, on the error combining them (see `keepGoing`) */
+    errors?: BuildError[];
+}
+
+/**
+ * An error from loading the asset referenced by a tag in a page.
+ */
+export interface AssetError extends Error {
+    assetPath: string;
+
+    /** The source code of the tag, for finding it in the template (or partial) that it came from */
+    tagSource: string;
+
+    /** The location of the tag in the page as it was rendered */
+    lineNumber: number;
+    column: number;
+}
+
+const PARSE_ERROR_REGEX = /^Parse error on line (\d+):/;
+
+export function getLineColumn(value: string, index: number): { lineNumber: number, column: number } {
+    const before = value.slice(0, index);
+    const lineStart = before.lastIndexOf("\n") + 1;
+    return { lineNumber: before.split("\n").length, column: index - lineStart + 1 };
+}
+
+/**
+ * Wraps an error from loading the asset referenced by the tag between `start` and `end` in the html,
+ * so that it says which asset could not be loaded and where the tag is.
+ */
+export function createAssetError(error: Error, url: string, assetPath: string, html: string, start: number, end: number): AssetError {
+    const assetError = new Error(`Could not load "${url}": ${error.message}`) as AssetError;
+    assetError.stack = error.stack;
+    assetError.assetPath = assetPath;
+    assetError.tagSource = html.slice(start, end);
+    Object.assign(assetError, getLineColumn(html, start));
+    return assetError;
+}
+
+export function isAssetError(error: any): error is AssetError {
+    return !!error && typeof error.tagSource === "string";
+}
+
+/**
+ * Finds the location of an asset error's tag in the first of the sources that contains it,
+ * falling back to its location in the rendered page of the template.
+ */
+export function locateAssetError(error: AssetError, templatePath: string, sources: { fileName: string, contents: string }[]): ErrorLocation {
+    for (const { fileName, contents } of sources) {
+        const index = contents.indexOf(error.tagSource);
+        if (index >= 0) {
+            return Object.assign({ fileName, assetPath: error.assetPath }, getLineColumn(contents, index));
+        }
+    }
+
+    return { fileName: templatePath, lineNumber: error.lineNumber, column: error.column, assetPath: error.assetPath, rendered: true };
+}
+
+/**
+ * Gets the location of a handlebars syntax error, with `lineOffset` added for the lines before the source (eg. the front-matter).
+ */
+export function locateParseError(error: any, lineOffset: number): ErrorLocation {
+    if (error && typeof error.lineNumber === "number") {
+        return {
+            lineNumber: error.lineNumber + lineOffset,
+            column: typeof error.column === "number" ? error.column + 1 : undefined,
+        };
+    }
+
+    const match = PARSE_ERROR_REGEX.exec(error && error.message || "");
+    return match ? { lineNumber: parseInt(match[1], 10) + lineOffset } : {};
+}
+
+/**
+ * Creates a `PluginError` that says where the error came from, both in its message and its properties.
+ */
+export function createPluginError(error: Error | string, location: ErrorLocation = {}): BuildError {
+    const message = typeof error === "string" ? error : error.message;
+    const where: string[] = [];
+    if (location.fileName) {
+        where.push(`in "${location.fileName}"`);
+    }
+    if (location.lineNumber !== undefined) {
+        where.push(`on line ${location.lineNumber}` + (location.column !== undefined ? `, column ${location.column}` : "") + (location.rendered ? " of the rendered page" : ""));
+    }
+
+    const fullMessage = where.length > 0 && message.indexOf(where[0]) < 0 ? `${message} (${where.join(" ")})` : message;
+
+    // Only the known parts of the location are set, so that the rest don't show up in the details of the error
+    const options: PluginError.Options = { message: fullMessage };
+    if (location.fileName !== undefined) {
+        options.fileName = location.fileName;
+    }
+    if (location.lineNumber !== undefined) {
+        options.lineNumber = location.lineNumber;
+    }
+
+    const pluginError: BuildError = new PluginError(PLUGIN_NAME, typeof error === "string" ? fullMessage : error, options);
+    if (location.column !== undefined) {
+        pluginError.column = location.column;
+    }
+    if (location.assetPath !== undefined) {
+        pluginError.assetPath = location.assetPath;
+    }
+
+    return pluginError;
+}
+
+/**
+ * Combines the errors collected from the whole build into a single error, keeping each of them in its `errors`.
+ */
+export function createAggregateError(errors: BuildError[]): BuildError {
+    const pluginError: BuildError = new PluginError(PLUGIN_NAME, `${errors.length} error${errors.length === 1 ? "" : "s"} in the build:\n` + errors.map((error: BuildError) => `  ${error.message}`).join("\n"), {
+        showProperties: false,
+    });
+    pluginError.errors = errors;
+    return pluginError;
+}
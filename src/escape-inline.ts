@@ -0,0 +1,253 @@
+import { PLUGIN_NAME } from "./options";
+import { matchAt } from "./string-util";
+
+type ScriptState = "code" | "'" | "\"" | "`" | "regex" | "lineComment" | "blockComment";
+type StyleState = "code" | "'" | "\"" | "comment";
+
+const UNSAFE_SCRIPT_REGEX = /<(?:\/script|!--|script)/i;
+const UNSAFE_SCRIPT_STICKY_REGEX = /<(?:\/script|!--|script)/iy;
+const UNSAFE_STYLE_REGEX = /<\/style/i;
+const UNSAFE_STYLE_STICKY_REGEX = /<\/style/iy;
+
+const IDENTIFIER_CHAR_REGEX = /[\w$]/;
+const WS_CHAR_REGEX = /\s/;
+
+/**
+ * Tokens after which a `/` starts a regular expression, rather than being a division.
+ */
+export const REGEX_PREFIXES = [
+    "", "(", ",", "=", ":", "[", "!", "&", "|", "?", "{", "}", ";", "+", "-", "*", "%", "<", ">", "~", "^",
+    "return", "typeof", "instanceof", "in", "of", "new", "delete", "void", "throw", "case", "do", "else", "yield", "await",
+];
+
+/**
+ * Escapes the sequences in a script that would break out of (or otherwise confuse the parsing of) an inline <script> tag,
+ * namely `</script`, `<!--` and `<script`, in a way that keeps the meaning of the script:
+ * inside of strings, template literals, regular expressions and comments they are escaped (eg. `<\/script`),
+ * and in the code itself they are split apart with a space, or turned into the equivalent `//` comment.
+ */
+export function escapeInlineScript(js: string, fileName: string): string {
+    if (!UNSAFE_SCRIPT_REGEX.test(js)) {
+        return js;
+    }
+
+    const output: string[] = [];
+    const templateBraceDepths: number[] = [];
+    let state: ScriptState = "code";
+    let braceDepth = 0;
+    let lastToken = "";
+    let prevIdentifierChar = false;
+    let taggedTemplate = false;
+    let inRegexClass = false;
+
+    for (let i = 0; i < js.length;) {
+        const sequence = matchAt(UNSAFE_SCRIPT_STICKY_REGEX, js, i);
+        if (sequence) {
+            const isComment = sequence === "<!--";
+
+            if (state === "code") {
+                if (isComment) {
+                    // In classic scripts `<!--` starts a single line comment, the same as `//`
+                    output.push("//");
+                    state = "lineComment";
+                } else {
+                    // Only the "<" is split off, leaving the rest to be scanned as usual (eg. `a </script>/` is a regex)
+                    output.push("< ");
+                    lastToken = "<";
+                    prevIdentifierChar = false;
+                    ++i;
+                    continue;
+                }
+            } else {
+                if (state === "`" && taggedTemplate) {
+                    console.warn(`${PLUGIN_NAME}: warning, escaping "${sequence}" in a tagged template literal in "${fileName}" may change its value`);
+                }
+
+                if (sequence.startsWith("</")) {
+                    output.push("<\\", sequence.slice(1));
+                } else {
+                    output.push("\\x3C", sequence.slice(1));
+                }
+            }
+
+            i += sequence.length;
+            continue;
+        }
+
+        const c = js[i];
+        const next = js[i + 1];
+
+        switch (state) {
+            case "code":
+                if (c === "'" || c === "\"") {
+                    state = c;
+                } else if (c === "`") {
+                    state = c;
+                    taggedTemplate = prevIdentifierChar || lastToken === ")" || lastToken === "]";
+                } else if (c === "/" && next === "/") {
+                    state = "lineComment";
+                } else if (c === "/" && next === "*") {
+                    state = "blockComment";
+                    output.push(c, next);
+                    i += 2;
+                    continue;
+                } else if (c === "/" && REGEX_PREFIXES.indexOf(lastToken) >= 0) {
+                    state = "regex";
+                    inRegexClass = false;
+                } else if (c === "{") {
+                    ++braceDepth;
+                } else if (c === "}") {
+                    if (templateBraceDepths.length > 0 && templateBraceDepths[templateBraceDepths.length - 1] === braceDepth) {
+                        // The end of a `${...}` substitution, back into the template literal
+                        templateBraceDepths.pop();
+                        state = "`";
+                    } else {
+                        --braceDepth;
+                    }
+                }
+
+                if (state === "code") {
+                    if (IDENTIFIER_CHAR_REGEX.test(c)) {
+                        lastToken = prevIdentifierChar ? lastToken + c : c;
+                        prevIdentifierChar = true;
+                    } else if (!WS_CHAR_REGEX.test(c)) {
+                        lastToken = c;
+                        prevIdentifierChar = false;
+                    } else {
+                        prevIdentifierChar = false;
+                    }
+                }
+                break;
+
+            case "'":
+            case "\"":
+                if (c === "\\") {
+                    output.push(c, next || "");
+                    i += 2;
+                    continue;
+                } else if (c === state || c === "\n") {
+                    state = "code";
+                    lastToken = "0";
+                }
+                break;
+
+            case "`":
+                if (c === "\\") {
+                    output.push(c, next || "");
+                    i += 2;
+                    continue;
+                } else if (c === "`") {
+                    state = "code";
+                    lastToken = "0";
+                } else if (c === "$" && next === "{") {
+                    templateBraceDepths.push(braceDepth);
+                    state = "code";
+                    lastToken = "{";
+                    prevIdentifierChar = false;
+                    output.push(c, next);
+                    i += 2;
+                    continue;
+                }
+                break;
+
+            case "regex":
+                if (c === "\\") {
+                    output.push(c, next || "");
+                    i += 2;
+                    continue;
+                } else if (c === "[") {
+                    inRegexClass = true;
+                } else if (c === "]") {
+                    inRegexClass = false;
+                } else if ((c === "/" && !inRegexClass) || c === "\n") {
+                    state = "code";
+                    lastToken = "0";
+                }
+                break;
+
+            case "lineComment":
+                if (c === "\n") {
+                    state = "code";
+                }
+                break;
+
+            case "blockComment":
+                if (c === "*" && next === "/") {
+                    state = "code";
+                    output.push(c, next);
+                    i += 2;
+                    continue;
+                }
+                break;
+        }
+
+        output.push(c);
+        ++i;
+    }
+
+    if (state !== "code" && state !== "lineComment") {
+        console.warn(`${PLUGIN_NAME}: warning, could not follow the syntax of "${fileName}", the escaped script may have changed`);
+    }
+
+    return output.join("");
+}
+
+/**
+ * Escapes the `</style` sequences in a stylesheet that would break out of an inline <style> tag,
+ * using a CSS escape (`\3c /style`) that keeps the meaning of strings.
+ */
+export function escapeInlineStyle(css: string, fileName: string): string {
+    if (!UNSAFE_STYLE_REGEX.test(css)) {
+        return css;
+    }
+
+    const output: string[] = [];
+    let state: StyleState = "code";
+
+    for (let i = 0; i < css.length;) {
+        const sequence = matchAt(UNSAFE_STYLE_STICKY_REGEX, css, i);
+        if (sequence) {
+            if (state === "code") {
+                console.warn(`${PLUGIN_NAME}: warning, found "${sequence}" outside of a string or comment in "${fileName}", the escaped stylesheet may have changed`);
+            }
+
+            output.push("\\3c ", sequence.slice(1));
+            i += sequence.length;
+            continue;
+        }
+
+        const c = css[i];
+        const next = css[i + 1];
+
+        if (state === "code") {
+            if (c === "'" || c === "\"") {
+                state = c;
+            } else if (c === "/" && next === "*") {
+                state = "comment";
+                output.push(c, next);
+                i += 2;
+                continue;
+            }
+        } else if (state === "comment") {
+            if (c === "*" && next === "/") {
+                state = "code";
+                output.push(c, next);
+                i += 2;
+                continue;
+            }
+        } else {
+            if (c === "\\") {
+                output.push(c, next || "");
+                i += 2;
+                continue;
+            } else if (c === state || c === "\n") {
+                state = "code";
+            }
+        }
+
+        output.push(c);
+        ++i;
+    }
+
+    return output.join("");
+}
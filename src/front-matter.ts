@@ -0,0 +1,28 @@
+import * as yaml from "js-yaml";
+import { MapLike } from "./map-like";
+
+const FRONT_MATTER_REGEX = /^---(json)?[ \t]*\r?\n(?:([\s\S]*?)\r?\n)?---[ \t]*(?:\r?\n|$)/;
+
+export interface FrontMatter {
+    attributes: MapLike<any>;
+    body: string;
+}
+
+/**
+ * Splits the front-matter (a block between `---` lines at the very start) off of a template.
+ * The front-matter is YAML (which JSON objects are valid as too), or JSON when the opening line is `---json`.
+ */
+export function parseFrontMatter(contents: string, filePath: string): FrontMatter {
+    const match = FRONT_MATTER_REGEX.exec(contents);
+    if (!match) {
+        return { attributes: {}, body: contents };
+    }
+
+    const source = match[2] || "";
+    const attributes = match[1] ? JSON.parse(source) : yaml.safeLoad(source, { filename: filePath });
+    if (attributes !== null && attributes !== undefined && (typeof attributes !== "object" || Array.isArray(attributes))) {
+        throw new Error(`The front-matter of "${filePath}" must be an object`);
+    }
+
+    return { attributes: attributes || {}, body: contents.slice(match[0].length) };
+}
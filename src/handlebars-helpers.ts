@@ -0,0 +1,142 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as crypto from "crypto";
+import * as Vinyl from "vinyl";
+import * as _handlebars from "handlebars";
+import Module = require("module");
+
+import { MapLike } from "./map-like";
+import { ReadBinaryFileSync } from "./read-file";
+import { resolveAssetPath } from "./resolve-asset";
+import { createCssClassPlaceholder } from "./minify-css-classes";
+import { ABSOLUTE_URL_REGEX } from "./regex";
+
+/**
+ * The helpers and decorators to register on each handlebars instance.
+ */
+export interface HandlebarsExtensions {
+    helpers: MapLike<Handlebars.HelperDelegate>;
+    decorators: MapLike<Function>;
+}
+
+/**
+ * The internals of node's `Module` used to run a helper module straight from its contents, which are missing from its typings.
+ */
+interface ModuleInternals {
+    _nodeModulePaths(dir: string): string[];
+}
+
+interface CompilableModule {
+    _compile(contents: string, filePath: string): void;
+}
+
+const HELPERS_DIR = "helpers";
+const HELPER_EXTS = [".js", ".ts"];
+
+/**
+ * Whether a file passed through the stream is a helper module, ie. a script inside of a top-level `helpers/` directory.
+ */
+export function isHelperFile(file: Vinyl): boolean {
+    return file.relative.split(path.sep)[0] === HELPERS_DIR
+        && HELPER_EXTS.indexOf(path.extname(file.path)) >= 0
+        && !file.path.endsWith(".d.ts");
+}
+
+/**
+ * Loads a helper module passed through the stream.
+ * JavaScript is run straight from the contents of the file, anything else (eg. TypeScript) is `require`d from disk,
+ * which needs a loader for it to be registered (eg. `ts-node/register`).
+ */
+export function loadHelperFile(file: Vinyl, extensions: HandlebarsExtensions): void {
+    const filePath = path.resolve(file.path);
+    let moduleExports: any;
+
+    if (path.extname(filePath) === ".js") {
+        const helperModule = new Module(filePath, module) as Module & CompilableModule;
+        helperModule.filename = filePath;
+        helperModule.paths = (Module as typeof Module & ModuleInternals)._nodeModulePaths(path.dirname(filePath));
+        helperModule._compile((file.contents as Buffer).toString("utf8"), filePath);
+        moduleExports = helperModule.exports;
+    } else {
+        moduleExports = require(filePath);
+    }
+
+    addModuleExtensions(moduleExports, filePath, extensions);
+}
+
+/**
+ * Loads every helper module in a directory, using whichever file types `require` can load.
+ */
+export function loadHelpersDirectory(dir: string, extensions: HandlebarsExtensions): void {
+    const exts = Object.keys(require.extensions).filter((ext: string) => ext !== ".json" && ext !== ".node");
+
+    for (const fileName of fs.readdirSync(dir).sort()) {
+        if (exts.indexOf(path.extname(fileName)) >= 0 && !fileName.endsWith(".d.ts")) {
+            const filePath = path.resolve(dir, fileName);
+            addModuleExtensions(require(filePath), filePath, extensions);
+        }
+    }
+}
+
+/**
+ * Adds the helpers (and decorators) exported by a module:
+ * a module that exports a single function (or a default export) is a helper named after its file,
+ * otherwise each exported function is a helper under its own name, and the functions in an exported `decorators` object are decorators.
+ */
+function addModuleExtensions(moduleExports: any, filePath: string, extensions: HandlebarsExtensions): void {
+    const name = path.basename(filePath, path.extname(filePath));
+
+    if (typeof moduleExports === "function") {
+        extensions.helpers[name] = moduleExports;
+        return;
+    }
+
+    for (const [key, value] of Object.entries(moduleExports || {})) {
+        if (key === "decorators" && value && typeof value === "object") {
+            Object.assign(extensions.decorators, value);
+        } else if (key === "default" && typeof value === "function") {
+            extensions.helpers[name] = value as Handlebars.HelperDelegate;
+        } else if (typeof value === "function") {
+            extensions.helpers[key] = value as Handlebars.HelperDelegate;
+        }
+    }
+}
+
+/**
+ * Registers the helpers that are tied to the bundler:
+ * - `{{asset-url "/style.css"}}` adds a hash of the file's contents to its URL, to bust caches when it changes
+ * - `{{inline-file "/icon.svg"}}` outputs the contents of a file as they are
+ * - `{{css-class "button"}}` outputs the minified name of a css class, for the places the minifier doesn't look (eg. in text)
+ */
+export function registerBuiltInHelpers(hbs: typeof _handlebars, baseUrl: string, readBinaryFileSync: ReadBinaryFileSync): void {
+    hbs.registerHelper("asset-url", (url: string) => {
+        if (ABSOLUTE_URL_REGEX.test(url)) {
+            return url;
+        }
+
+        const contents = readBinaryFileSync(resolveAssetPath(url, baseUrl));
+        const hash = crypto.createHash("md5").update(contents).digest("hex").slice(0, 8);
+        return new hbs.SafeString(`${hbs.escapeExpression(url)}${url.indexOf("?") >= 0 ? "&amp;" : "?"}v=${hash}`);
+    });
+
+    hbs.registerHelper("inline-file", (filePath: string) => {
+        return new hbs.SafeString(readBinaryFileSync(resolveAssetPath(filePath, baseUrl)).toString("utf8"));
+    });
+
+    hbs.registerHelper("css-class", (className: string) => {
+        return new hbs.SafeString(createCssClassPlaceholder(hbs.escapeExpression(className)));
+    });
+}
+
+/**
+ * Registers the helpers and decorators on a handlebars instance.
+ */
+export function registerExtensions(hbs: typeof _handlebars, extensions: HandlebarsExtensions): void {
+    for (const [name, helper] of Object.entries(extensions.helpers)) {
+        hbs.registerHelper(name, helper);
+    }
+
+    for (const [name, decorator] of Object.entries(extensions.decorators)) {
+        hbs.registerDecorator(name, decorator);
+    }
+}
@@ -0,0 +1,293 @@
+import { MapLike } from "./map-like";
+import { matchAt } from "./string-util";
+
+export interface HtmlAttribute {
+    /** The name of the attribute, in lower case */
+    name: string;
+
+    /** The value of the attribute exactly as it was written (without the quotes), or `undefined` for boolean attributes */
+    value: string | undefined;
+    quote: "'" | "\"" | "";
+
+    /** The range of the whole attribute (name and value) in the source */
+    start: number;
+    end: number;
+
+    /** The range of the value (without the quotes) in the source */
+    valueStart: number;
+    valueEnd: number;
+}
+
+export interface HtmlStartTag {
+    type: "startTag";
+
+    /** The name of the tag, in lower case */
+    name: string;
+    attributes: HtmlAttribute[];
+    selfClosing: boolean;
+
+    /**
+     * Whether the tag is inside of a <template> or <pre> block,
+     * where the tags are usually there to be shown or cloned later instead of being loaded with the page.
+     */
+    inert: boolean;
+    start: number;
+    end: number;
+
+    /**
+     * For elements that contain raw text (eg. <script> and <style>), the range of their contents and the end of their closing tag.
+     * For everything else these are all the same as the `end` of the start tag.
+     */
+    contentStart: number;
+    contentEnd: number;
+    elementEnd: number;
+}
+
+export interface HtmlEndTag {
+    type: "endTag";
+    name: string;
+    inert: boolean;
+    start: number;
+    end: number;
+}
+
+export interface HtmlText {
+    type: "text" | "rawText" | "comment" | "doctype";
+    start: number;
+    end: number;
+}
+
+export type HtmlToken = HtmlStartTag | HtmlEndTag | HtmlText;
+
+/**
+ * A change to make to the html, replacing the range from `start` to `end` with `text`.
+ */
+export interface HtmlEdit {
+    start: number;
+    end: number;
+    text: string;
+}
+
+const RAW_TEXT_ELEMENTS = ["script", "style", "textarea", "title", "xmp", "iframe", "noembed", "noframes"];
+const INERT_ELEMENTS = ["template", "pre"];
+
+const TAG_NAME_REGEX = /[a-z][^\s/>]*/iy;
+const ATTRIB_NAME_REGEX = /[^\s"'>\/=][^\s"'>\/=]*/y;
+const UNQUOTED_VALUE_REGEX = /[^\s>]*/y;
+const WS_REGEX = /\s*/y;
+
+/**
+ * Splits html into a flat list of tokens, keeping track of where each one is in the source,
+ * so that parts of the html can be changed without touching the formatting of anything else.
+ *
+ * This follows the HTML tokenizer closely enough for finding tags and attributes:
+ * comments, unquoted attribute values and multi-line <script> and <style> contents are all handled,
+ * but character references are left as they are.
+ */
+export function tokenizeHtml(html: string): HtmlToken[] {
+    const tokens: HtmlToken[] = [];
+    let inertDepth = 0;
+    let pos = 0;
+
+    function pushText(type: HtmlText["type"], start: number, end: number) {
+        if (end > start) {
+            tokens.push({ type, start, end });
+        }
+    }
+
+    while (pos < html.length) {
+        const lt = html.indexOf("<", pos);
+        if (lt < 0) {
+            pushText("text", pos, html.length);
+            break;
+        }
+
+        pushText("text", pos, lt);
+
+        if (html.startsWith("<!--", lt)) {
+            const end = html.indexOf("-->", lt + 4);
+            pos = end < 0 ? html.length : end + 3;
+            pushText("comment", lt, pos);
+        } else if (html[lt + 1] === "!" || html[lt + 1] === "?") {
+            // Doctypes, CDATA sections, and bogus comments
+            const end = html.indexOf(">", lt);
+            pos = end < 0 ? html.length : end + 1;
+            pushText(html.slice(lt + 2, lt + 9).toLowerCase() === "doctype" ? "doctype" : "comment", lt, pos);
+        } else if (html[lt + 1] === "/" && matchAt(TAG_NAME_REGEX, html, lt + 2)) {
+            const name = matchAt(TAG_NAME_REGEX, html, lt + 2).toLowerCase();
+            const end = html.indexOf(">", lt);
+            pos = end < 0 ? html.length : end + 1;
+
+            if (INERT_ELEMENTS.indexOf(name) >= 0 && inertDepth > 0) {
+                --inertDepth;
+            }
+            tokens.push({ type: "endTag", name, inert: inertDepth > 0, start: lt, end: pos });
+        } else if (matchAt(TAG_NAME_REGEX, html, lt + 1)) {
+            const tag = readStartTag(html, lt, inertDepth > 0);
+            tokens.push(tag);
+            pos = tag.end;
+
+            if (RAW_TEXT_ELEMENTS.indexOf(tag.name) >= 0 && !tag.selfClosing) {
+                const closeRegex = new RegExp(`</${tag.name}(?=[\\s/>])`, "ig");
+                closeRegex.lastIndex = pos;
+                const close = closeRegex.exec(html);
+                const contentEnd = close ? close.index : html.length;
+                const closeEnd = close ? html.indexOf(">", contentEnd) : -1;
+                const elementEnd = closeEnd < 0 ? html.length : closeEnd + 1;
+
+                pushText("rawText", pos, contentEnd);
+                if (contentEnd < elementEnd) {
+                    tokens.push({ type: "endTag", name: tag.name, inert: tag.inert, start: contentEnd, end: elementEnd });
+                }
+
+                tag.contentEnd = contentEnd;
+                tag.elementEnd = elementEnd;
+                pos = elementEnd;
+            } else if (INERT_ELEMENTS.indexOf(tag.name) >= 0 && !tag.selfClosing) {
+                ++inertDepth;
+            }
+        } else {
+            // A "<" that doesn't start a tag is just text
+            pushText("text", lt, lt + 1);
+            pos = lt + 1;
+        }
+    }
+
+    return tokens;
+}
+
+function readStartTag(html: string, start: number, inert: boolean): HtmlStartTag {
+    const name = matchAt(TAG_NAME_REGEX, html, start + 1);
+    const attributes: HtmlAttribute[] = [];
+    let selfClosing = false;
+    let pos = start + 1 + name.length;
+
+    while (pos < html.length) {
+        pos += matchAt(WS_REGEX, html, pos).length;
+
+        if (html[pos] === ">") {
+            ++pos;
+            break;
+        } else if (html.startsWith("/>", pos)) {
+            selfClosing = true;
+            pos += 2;
+            break;
+        } else if (html[pos] === "/") {
+            ++pos;
+            continue;
+        }
+
+        const attribStart = pos;
+        const attribName = matchAt(ATTRIB_NAME_REGEX, html, pos) || html[pos];
+        pos += attribName.length;
+
+        const attribute: HtmlAttribute = {
+            name: attribName.toLowerCase(),
+            value: undefined,
+            quote: "",
+            start: attribStart,
+            end: pos,
+            valueStart: pos,
+            valueEnd: pos,
+        };
+
+        const afterName = pos + matchAt(WS_REGEX, html, pos).length;
+        if (html[afterName] === "=") {
+            pos = afterName + 1;
+            pos += matchAt(WS_REGEX, html, pos).length;
+
+            const quote = html[pos];
+            if (quote === "\"" || quote === "'") {
+                const valueEnd = html.indexOf(quote, pos + 1);
+                attribute.quote = quote;
+                attribute.valueStart = pos + 1;
+                attribute.valueEnd = valueEnd < 0 ? html.length : valueEnd;
+                pos = valueEnd < 0 ? html.length : valueEnd + 1;
+            } else {
+                const value = matchAt(UNQUOTED_VALUE_REGEX, html, pos);
+                attribute.valueStart = pos;
+                attribute.valueEnd = pos + value.length;
+                pos += value.length;
+            }
+
+            attribute.value = html.slice(attribute.valueStart, attribute.valueEnd);
+            attribute.end = pos;
+        }
+
+        attributes.push(attribute);
+    }
+
+    return {
+        type: "startTag",
+        name: name.toLowerCase(),
+        attributes,
+        selfClosing,
+        inert,
+        start,
+        end: pos,
+        contentStart: pos,
+        contentEnd: pos,
+        elementEnd: pos,
+    };
+}
+
+export function getAttribute(tag: HtmlStartTag, name: string): HtmlAttribute | undefined {
+    for (const attribute of tag.attributes) {
+        if (attribute.name === name) {
+            return attribute;
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Gets the value of an attribute, or `undefined` if the tag doesn't have it.
+ * Boolean attributes have a value of `""`.
+ */
+export function getAttributeValue(tag: HtmlStartTag, name: string): string | undefined {
+    const attribute = getAttribute(tag, name);
+    return attribute ? attribute.value || "" : undefined;
+}
+
+/**
+ * Gets all of the attributes of a tag, keeping the value `undefined` for boolean attributes.
+ */
+export function getAttributeValues(tag: HtmlStartTag): MapLike<string> {
+    const attributeValues: MapLike<string> = {};
+    for (const attribute of tag.attributes) {
+        attributeValues[attribute.name] = attribute.value;
+    }
+
+    return attributeValues;
+}
+
+/**
+ * Creates an edit that replaces the value of an attribute, keeping its quotes
+ * (or adding some if the new value can't be left unquoted).
+ */
+export function replaceAttributeValue(attribute: HtmlAttribute, value: string): HtmlEdit {
+    if (attribute.value === undefined) {
+        return { start: attribute.start, end: attribute.end, text: `${attribute.name}="${value}"` };
+    } else if (attribute.quote || !/[\s"'=<>`]|^$/.test(value)) {
+        return { start: attribute.valueStart, end: attribute.valueEnd, text: value };
+    } else {
+        return { start: attribute.valueStart, end: attribute.valueEnd, text: `"${value.replace(/"/g, "&quot;")}"` };
+    }
+}
+
+/**
+ * Applies the edits to the html, which must not overlap.
+ */
+export function applyEdits(html: string, edits: HtmlEdit[]): string {
+    const output: string[] = [];
+    let prevIndex = 0;
+
+    for (const edit of [...edits].sort((a, b) => a.start - b.start)) {
+        output.push(html.slice(prevIndex, edit.start), edit.text);
+        prevIndex = edit.end;
+    }
+
+    output.push(html.slice(prevIndex));
+    return output.join("");
+}
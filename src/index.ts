@@ -1,21 +1,93 @@
 import * as path from "path";
 import { promises as fs } from "fs";
 import * as stream from "stream";
+import * as crypto from "crypto";
+import * as url from "url";
 import * as Vinyl from "vinyl";
-import * as PluginError from "plugin-error";
 import * as through2 from "through2";
 import * as _handlebars from "handlebars";
 
 import { MapLike } from "./map-like";
-import { Options, PLUGIN_NAME, PLUGIN_DEFAULTS } from "./options";
-import { bundleCssPrep, bundleCss, combineCss } from "./bundle-css";
-import { bundleJsPrep, bundleJs, combineJs } from "./bundle-js";
-import { minifyCssClasses } from "./minify-css-classes";
+import { Options, AssetResolver, Collection, PLUGIN_DEFAULTS } from "./options";
+import { bundleCssPrep, bundleCss, combineCss, relinkCss, findBundledCss } from "./bundle-css";
+import { bundleJsPrep, bundleJs, combineJs, relinkJs, findBundledJs } from "./bundle-js";
+import { removeBundleAttributes } from "./bundle-attributes";
+import { minifyHtml } from "./minify-html";
+import { minifyCss } from "./minify-css";
+import { minifyJs } from "./minify-js";
+import { minifyInlineFiles } from "./minify-inline";
+import { ABSOLUTE_URL_REGEX } from "./regex";
+import { createReadFile, createReadBinaryFile, createReadBinaryFileSync } from "./read-file";
+import { getMimeType } from "./mime-types";
+import { rebaseCssUrls, inlineCssUrls } from "./css-urls";
+import { inlineAssets } from "./inline-assets";
+import { ResolveAsset, createDefaultResolver, createResolveAsset } from "./resolve-asset";
+import { addSubresourceIntegrity } from "./subresource-integrity";
+import { createCspSources, addCspMetaTag } from "./csp-hashes";
+import { getPartialName } from "./partials";
+import { parseFrontMatter } from "./front-matter";
+import { registerLayoutHelpers, wrapInLayout } from "./layouts";
+import { readStreamContents, createStreamContents } from "./vinyl-stream";
+import { isCollectionFile, getCollectionItems, createCollectionPages } from "./collections";
+import { isDataFile, parseDataFile, getGlobalDataKeys, addGlobalData } from "./template-data";
+import { createAssetCache, getCachedResult } from "./asset-cache";
+import { Dependencies, hashContents, hashValue, compileCachedTemplate, trackReads, trackReadsSync, recordDependency, isPageCurrent } from "./build-cache";
+import { BuildError, ErrorLocation, createPluginError, createAggregateError, isAssetError, locateAssetError, locateParseError } from "./errors";
+import { HandlebarsExtensions, isHelperFile, loadHelperFile, loadHelpersDirectory, registerBuiltInHelpers, registerExtensions } from "./handlebars-helpers";
+import { minifyCssClasses, countCssClasses, createCssClassNames, replaceCssClasses } from "./minify-css-classes";
+import { minifyCssVariables, countCssVariables, createCssVariableNames, replaceCssVariables } from "./minify-css-variables";
+
+interface OutputFile {
+    file: Vinyl;
+    outputFileName: string;
+    html: string;
+    cssFiles: MapLike<string>;
+    jsFiles: MapLike<string>;
+    resolveBinaryAsset: ResolveAsset<string | Buffer>;
+}
 
 export = function gulpBundleHtml(options?: Options) {
     options = Object.assign({}, PLUGIN_DEFAULTS, options);
+    if (options.minifyManifest || options.minifyManifestSeed) {
+        // The manifest (and the seed) can only describe a single mapping
+        options.minifyGlobally = true;
+    }
+
+    // Anything remembered from the previous builds, when the same `cache` is passed to each of them
+    const cache = options.cache ? Object.assign(options.cache, {
+        templates: options.cache.templates || {},
+        files: options.cache.files || {},
+        pages: options.cache.pages || {},
+    }) : null;
+
     const partials: MapLike<string> = {};
+    const partialPaths: MapLike<string> = {};
     const templates: Vinyl[] = [];
+    const assets: Vinyl[] = [];
+    const virtualFiles: MapLike<Buffer> = {};
+    // Shared by every page in this build, so that the files they have in common are only read and processed once
+    const assetCache = createAssetCache(options.maxConcurrentReads || PLUGIN_DEFAULTS.maxConcurrentReads);
+
+    const readFile = createReadFile(virtualFiles, cache ? cache.files : undefined, assetCache);
+    const readBinaryFile = createReadBinaryFile(virtualFiles, cache ? cache.files : undefined, assetCache);
+    const readBinaryFileSync = createReadBinaryFileSync(virtualFiles, cache ? cache.files : undefined);
+    const streamExtensions: HandlebarsExtensions = { helpers: {}, decorators: {} };
+    const globalData: MapLike<any> = {};
+    const pageDataFiles: MapLike<Vinyl> = {};
+    const collectionFiles: Vinyl[][] = (options.collections || []).map(() => []);
+    const outputFiles: OutputFile[] = [];
+    const emittedAssets = new Set<string>();
+    const streamedFiles = new Set<Vinyl>();
+    const errors: BuildError[] = [];
+
+    // The keys of the pages in this build, so that the cache can forget the pages that are gone
+    const cachedPageKeys = new Set<string>();
+
+    // The dependencies of the page being rendered by handlebars (which happens synchronously), for recording the files read by helpers and the partials used
+    let currentDependencies: Dependencies | null = null;
+
+    // The hash of the helpers and the options that affect rendering, since every page depends on them
+    let buildHash = "";
 
     const stream = through2({
         objectMode: true,
@@ -27,93 +99,555 @@ export = function gulpBundleHtml(options?: Options) {
         }
 
         if (file.isStream()) {
-            stream.emit("error", new PluginError(PLUGIN_NAME, "Streams not supported!"));
+            // Read the whole file in, since the templates and assets can only be processed as a whole
+            readStreamContents(file.contents as NodeJS.ReadableStream)
+                .then((contents: Buffer) => {
+                    (file as Vinyl).contents = contents;
+                    streamedFiles.add(file);
+                    addFile(file, callback);
+                }, (error: Error) => {
+                    reportError(createPluginError(error, { fileName: file.path }));
+                    callback(null);
+                });
         } else {
-            const parsedPath = path.parse(file.path);
-            if (parsedPath.name.startsWith("_")) {
-                partials[parsedPath.name.slice(1)] = (file.contents as Buffer).toString("utf8");
-                callback(null);
-            } else {
-                templates.push(file);
-                callback(null);
-            }
+            addFile(file, callback);
         }
+    }, function (callback: () => void) {
+        // Wait until all of the sources have been read in (including the ones still being streamed)
+        // and then render all of the templates and emit their corresponding files
+        onEndStream(callback);
     });
 
-    // Override the default `stream.end()` method so that we can wait until all of the sources have been read in
-    // and then render all of the templates and emit their corresponding files
-    const superEnd = stream.end.bind(stream);
-    stream.end = onEndStream;
     return stream;
 
-    async function bundleOutputFile(
+    /**
+     * Emits an error from the stream right away, or collects it to be reported along with the rest at the end with `keepGoing`.
+     * Without `keepGoing`, only the first error is emitted, since the rest of the build stops after it.
+     */
+    function reportError(error: BuildError) {
+        if (options.keepGoing) {
+            errors.push(error);
+        } else if (errors.length === 0) {
+            errors.push(error);
+            stream.emit("error", error);
+        }
+    }
+
+    /**
+     * Whether the build should stop, because of an error without `keepGoing`.
+     */
+    function hasFailed() {
+        return !options.keepGoing && errors.length > 0;
+    }
+
+    /**
+     * Gets where an error from rendering a page came from, following a tag that referenced a missing asset back to
+     * the template or partial that it was written in.
+     */
+    function locateError(error: Error, file: Vinyl): ErrorLocation {
+        if (isAssetError(error)) {
+            return locateAssetError(error, file.path, [
+                { fileName: file.path, contents: (file.contents as Buffer).toString("utf8") },
+                ...Object.keys(partials).map((name: string) => ({ fileName: partialPaths[name], contents: partials[name] })),
+            ]);
+        }
+
+        return { fileName: file.path };
+    }
+
+    /**
+     * Sorts a file passed through the stream into the templates, partials, assets, etc.
+     */
+    function addFile(file: Vinyl, callback: stream.TransformCallback) {
+        const parsedPath = path.parse(file.path);
+        const partialName = getPartialName(file.relative.split(path.sep).join("/"), options.partialNaming || "prefix");
+        const collectionIndexes = (options.collections || [])
+            .map((collection: Collection, i: number) => isCollectionFile(collection, file.relative) ? i : -1)
+            .filter((i: number) => i >= 0);
+
+        if (options.handlebars && collectionIndexes.length > 0) {
+            // The items of collections are only used to render the collection's template
+            for (const i of collectionIndexes) {
+                collectionFiles[i].push(file);
+            }
+            callback(null);
+        } else if (options.handlebars && isHelperFile(file)) {
+            try {
+                loadHelperFile(file, streamExtensions);
+            } catch (error) {
+                reportError(createPluginError(error, { fileName: file.path }));
+            }
+            callback(null);
+        } else if (isDataFile(file.path)) {
+            const globalDataKeys = getGlobalDataKeys(file.relative);
+            const pageDataKey = path.join(parsedPath.dir, parsedPath.name);
+
+            if (options.handlebars && globalDataKeys) {
+                // Files inside of the `data/` directory are used by every template
+                try {
+                    addGlobalData(globalData, globalDataKeys, parseDataFile(file.path, (file.contents as Buffer).toString("utf8")));
+                } catch (error) {
+                    reportError(createPluginError(error, { fileName: file.path }));
+                }
+            } else if (options.handlebars && !(pageDataKey in pageDataFiles)) {
+                // Any others are only used by the template next to them, so they are held on to (and only parsed)
+                // until it's known whether there is one, and are otherwise passed along untouched (eg. a `manifest.json`)
+                pageDataFiles[pageDataKey] = file;
+            } else {
+                pushFile(file, streamedFiles.has(file));
+            }
+            callback(null);
+        } else if (parsedPath.ext === ".css" || parsedPath.ext === ".js") {
+            // Stylesheets and scripts are not templates, hold on to them so that they can be
+            // bundled into (or minified along with) the pages before being passed along
+            assets.push(file);
+            virtualFiles[path.resolve(file.path)] = file.contents as Buffer;
+            callback(null);
+        } else if (getMimeType(file.path)) {
+            // Images, fonts, etc. can be referenced by (and inlined into) the pages, but are otherwise passed along untouched
+            virtualFiles[path.resolve(file.path)] = file.contents as Buffer;
+            pushFile(file, streamedFiles.has(file));
+            callback(null);
+        } else if (partialName !== null) {
+            if (partialName in partials) {
+                reportError(createPluginError(`Duplicate partial "${partialName}" from "${partialPaths[partialName]}" and "${file.path}"`, { fileName: file.path }));
+                return callback(null);
+            }
+
+            partials[partialName] = (file.contents as Buffer).toString("utf8");
+            partialPaths[partialName] = file.path;
+            callback(null);
+        } else {
+            templates.push(file);
+            callback(null);
+        }
+    }
+
+    /**
+     * Passes a file along the stream, turning its contents back into a stream if `asStream` is set
+     * (ie. the file it came from was streamed in).
+     */
+    function pushFile(file: Vinyl, asStream: boolean) {
+        if (asStream && file.isBuffer()) {
+            (file as Vinyl).contents = createStreamContents(file.contents as Buffer);
+        }
+
+        stream.push(file);
+    }
+
+    async function renderOutputFile(
         file: Vinyl,
+        templateHash: string,
         outputFileName: string,
         template: _handlebars.TemplateDelegate,
         context: any,
         templateOptions?: Handlebars.RuntimeOptions,
     ) {
         try {
-            let html = template(context, templateOptions);
+            const baseUrl = options.baseUrl || file.base;
             const cssFiles: MapLike<string> = {};
             const jsFiles: MapLike<string> = {};
             const promises: Promise<any>[] = [];
+            const outputPath = path.resolve(file.base, outputFileName);
+            const assetResolvers = ([] as AssetResolver[]).concat(options.resolveAsset || []);
+            const resolveAsset = createResolveAsset([...assetResolvers, createDefaultResolver(readFile, baseUrl)], outputPath);
+
+            // The integrity hashes are of the bytes as they are served, so local files are never decoded for them
+            const resolveBinaryAsset = createResolveAsset<string | Buffer>([...assetResolvers, createDefaultResolver(readBinaryFile, baseUrl)], outputPath);
 
-            if (options.bundleCss || options.minifyCssClasses) {
-                promises.push(bundleCssPrep(html, cssFiles, options.baseUrl || file.base));
+            // Pages rendered with their own runtime options (eg. helpers) can't be told apart between builds, so they are never cached
+            const cacheKey = `${file.path}\0${outputFileName}`;
+            cachedPageKeys.add(cacheKey);
+            const contextHash = cache && !templateOptions ? hashValue(context) : null;
+            const dependencies: Dependencies | null = contextHash === null ? null : { build: buildHash, template: templateHash, context: contextHash };
+            if (cache && dependencies && cache.pages[cacheKey] && await isPageCurrent(cache.pages[cacheKey], (key: string) => hashDependency(key, dependencies, resolveAsset))) {
+                const cachedPage = cache.pages[cacheKey];
+                outputFiles.push({
+                    file,
+                    outputFileName,
+                    html: cachedPage.html,
+                    cssFiles: Object.assign({}, cachedPage.cssFiles),
+                    jsFiles: Object.assign({}, cachedPage.jsFiles),
+                    resolveBinaryAsset,
+                });
+                return;
             }
 
-            if (options.bundleJs || options.minifyCssClasses) {
-                promises.push(bundleJsPrep(html, jsFiles, options.baseUrl || file.base));
+            const pageResolveAsset = dependencies ? trackReads(resolveAsset, "asset", () => dependencies) : resolveAsset;
+            const pageReadBinaryFile = dependencies ? trackReads(readBinaryFile, "file", () => dependencies) : readBinaryFile;
+
+            let html: string;
+            currentDependencies = dependencies;
+            try {
+                html = template(context, templateOptions);
+            } finally {
+                currentDependencies = null;
             }
 
+            // Stylesheets that get bundled move into the page, so the files they reference need to be found from there instead
+            const pageUrl = "/" + path.relative(baseUrl, outputPath).split(path.sep).join("/");
+            const transformCss = async (css: string, cssUrl: string) => {
+                if (options.inlineCssUrls) {
+                    css = await inlineCssUrls(css, cssUrl, baseUrl, pageReadBinaryFile, options.inlineCssUrls);
+                }
+
+                // Every page in the same directory gets the same result
+                return getCachedResult(assetCache, `rebase\0${cssUrl}\0${path.posix.dirname(pageUrl)}\0${hashContents(css)}`, () => rebaseCssUrls(css, cssUrl, pageUrl));
+            };
+
+            if (options.inlineAssets) {
+                // Done before anything else, so that the classes inside of inlined SVGs get minified too
+                html = await inlineAssets(html, baseUrl, pageReadBinaryFile, options.inlineAssets);
+            }
+
+            // Every file needs to be loaded for minifying, otherwise only the ones being bundled (including the ones marked `data-bundle="inline"`)
+            const loadAll = options.minifyCssClasses || options.minifyCssVariables;
+            promises.push(bundleCssPrep(html, cssFiles, baseUrl, pageResolveAsset, options.bundleCss, loadAll, transformCss));
+            promises.push(bundleJsPrep(html, jsFiles, baseUrl, pageResolveAsset, options.bundleJs, loadAll));
+
             await Promise.all(promises);
-            promises.length = 0;
+            if (cache && dependencies) {
+                // Copied, since minifying replaces the contents of the files in place
+                cache.pages[cacheKey] = { dependencies, html, cssFiles: Object.assign({}, cssFiles), jsFiles: Object.assign({}, jsFiles) };
+            }
+
+            outputFiles.push({ file, outputFileName, html, cssFiles, jsFiles, resolveBinaryAsset });
+        } catch (error) {
+            reportError(createPluginError(error, locateError(error, file)));
+        }
+    }
+
+    /**
+     * Gets the current hash of one of the dependencies of a cached page, to check whether the page needs rendering again.
+     * `dependencies` are the ones known before rendering the page (eg. its template and context).
+     */
+    async function hashDependency(key: string, dependencies: Dependencies, resolveAsset: ResolveAsset): Promise<string> {
+        if (key in dependencies) {
+            return dependencies[key];
+        }
+
+        const kind = key.slice(0, key.indexOf(":"));
+        const name = key.slice(kind.length + 1);
+        if (kind === "partial") {
+            return hashContents(name in partials ? partials[name] : null);
+        } else if (kind === "asset") {
+            return hashContents(await resolveAsset(name));
+        } else if (kind === "file") {
+            return hashContents(await readBinaryFile(name));
+        } else {
+            return "";
+        }
+    }
+
+    /**
+     * Minifies the css classes and variables using a single mapping shared by every page in the build,
+     * so that stylesheets and scripts used by multiple pages are correct for all of them.
+     */
+    async function minifyAcrossPages() {
+        const cssFiles: MapLike<string> = {};
+        const jsFiles: MapLike<string> = {};
+        const seed = await loadManifestSeed();
+        const manifest: MapLike<string> = Object.assign({}, seed.manifest);
+
+        // Each stylesheet and script is only counted once, no matter how many pages use it.
+        // The pages still get their own copies replaced, since they may have been processed differently for each page (eg. rebased urls)
+        for (const outputFile of outputFiles) {
+            Object.assign(cssFiles, outputFile.cssFiles);
+            Object.assign(jsFiles, outputFile.jsFiles);
+        }
+
+        // Files passed through the stream are kept separately, since the pages may have
+        // processed their own copies of them (eg. following their @imports)
+        const assetCssFiles: MapLike<string> = {};
+        const assetJsFiles: MapLike<string> = {};
+        for (const asset of assets) {
+            const contents = (asset.contents as Buffer).toString("utf8");
+            if (path.extname(asset.path) === ".css") {
+                assetCssFiles[asset.path] = contents;
+            } else {
+                assetJsFiles[asset.path] = contents;
+            }
+        }
+
+        if (options.minifyCssClasses) {
+            const usageCounts: MapLike<number> = {};
+            for (const outputFile of outputFiles) {
+                countCssClasses(usageCounts, outputFile.html, {}, {}, options.classesWhitelist || []);
+            }
+            countCssClasses(usageCounts, "", cssFiles, jsFiles, options.classesWhitelist || []);
+            countCssClasses(usageCounts, "", assetCssFiles, assetJsFiles, options.classesWhitelist || []);
+
+            const replacementNames = createCssClassNames(usageCounts, seed.classes);
+            for (const className in replacementNames) {
+                manifest[className] = replacementNames[className];
+            }
+
+            for (const outputFile of outputFiles) {
+                outputFile.html = replaceCssClasses(outputFile.html, {}, {}, replacementNames);
+            }
+            replaceInPageFiles((pageCssFiles: MapLike<string>, pageJsFiles: MapLike<string>) => replaceCssClasses("", pageCssFiles, pageJsFiles, replacementNames));
+            replaceCssClasses("", assetCssFiles, assetJsFiles, replacementNames);
+        }
+
+        if (options.minifyCssVariables) {
+            const usageCounts: MapLike<number> = {};
+            for (const outputFile of outputFiles) {
+                countCssVariables(usageCounts, outputFile.html, {}, {}, options.variablesWhitelist || []);
+            }
+            countCssVariables(usageCounts, "", cssFiles, jsFiles, options.variablesWhitelist || []);
+            countCssVariables(usageCounts, "", assetCssFiles, assetJsFiles, options.variablesWhitelist || []);
+
+            const replacementNames = createCssVariableNames(usageCounts, options.variablesWhitelist || [], seed.variables);
+            for (const variableName in replacementNames) {
+                manifest[`--${variableName}`] = `--${replacementNames[variableName]}`;
+            }
+
+            for (const outputFile of outputFiles) {
+                outputFile.html = replaceCssVariables(outputFile.html, {}, {}, replacementNames);
+            }
+            replaceInPageFiles((pageCssFiles: MapLike<string>, pageJsFiles: MapLike<string>) => replaceCssVariables("", pageCssFiles, pageJsFiles, replacementNames));
+            replaceCssVariables("", assetCssFiles, assetJsFiles, replacementNames);
+        }
+
+        for (const asset of assets) {
+            const contents = path.extname(asset.path) === ".css" ? assetCssFiles[asset.path] : assetJsFiles[asset.path];
+            asset.contents = Buffer.from(contents);
+            virtualFiles[path.resolve(asset.path)] = asset.contents;
+        }
+
+        if (options.minifyManifest) {
+            const base = templates.length > 0 ? templates[0].base : process.cwd();
+            pushFile(new Vinyl({
+                base,
+                path: path.resolve(base, options.minifyManifest),
+                contents: Buffer.from(JSON.stringify(manifest, null, 2)),
+            }), templates.length > 0 && streamedFiles.has(templates[0]));
+        }
+    }
+
+    /**
+     * Replaces the names in the stylesheets and scripts of every page, only once for each distinct file
+     * (most pages have the same copies of the files they share).
+     */
+    function replaceInPageFiles(replace: (cssFiles: MapLike<string>, jsFiles: MapLike<string>) => void) {
+        const cssFiles: MapLike<string> = {};
+        const jsFiles: MapLike<string> = {};
+        const pageHashes = outputFiles.map((outputFile: OutputFile) => {
+            const hashes: { css: MapLike<string>, js: MapLike<string> } = { css: {}, js: {} };
+            for (const [filePath, contents] of Object.entries(outputFile.cssFiles)) {
+                hashes.css[filePath] = hashContents(contents);
+                cssFiles[hashes.css[filePath]] = contents;
+            }
+            for (const [filePath, contents] of Object.entries(outputFile.jsFiles)) {
+                hashes.js[filePath] = hashContents(contents);
+                jsFiles[hashes.js[filePath]] = contents;
+            }
+            return hashes;
+        });
+
+        replace(cssFiles, jsFiles);
+
+        outputFiles.forEach((outputFile: OutputFile, i: number) => {
+            for (const filePath in outputFile.cssFiles) {
+                outputFile.cssFiles[filePath] = cssFiles[pageHashes[i].css[filePath]];
+            }
+            for (const filePath in outputFile.jsFiles) {
+                outputFile.jsFiles[filePath] = jsFiles[pageHashes[i].js[filePath]];
+            }
+        });
+    }
+
+    /**
+     * Splits the `minifyManifestSeed` into the seeds for the css classes and the css variables.
+     */
+    async function loadManifestSeed() {
+        const classes: MapLike<string> = {};
+        const variables: MapLike<string> = {};
+        let manifest: MapLike<string> = {};
+
+        if (typeof options.minifyManifestSeed === "string") {
+            manifest = JSON.parse(await fs.readFile(path.resolve(options.minifyManifestSeed), "utf8"));
+        } else if (options.minifyManifestSeed) {
+            manifest = options.minifyManifestSeed;
+        }
+
+        for (const name in manifest) {
+            if (name.startsWith("--")) {
+                variables[name.slice(2)] = manifest[name].slice(2);
+            } else {
+                classes[name] = manifest[name];
+            }
+        }
+
+        return { manifest, classes, variables };
+    }
+
+    async function bundleOutputFile({ file, outputFileName, html, cssFiles, jsFiles, resolveBinaryAsset }: OutputFile) {
+        try {
+            const baseUrl = options.baseUrl || file.base;
+            const minified = options.minifyCssClasses || options.minifyCssVariables;
 
-            if (options.minifyCssClasses) {
+            if (options.minifyCssClasses && !options.minifyGlobally) {
                 html = minifyCssClasses(html, cssFiles, jsFiles, options.classesWhitelist || []);
             }
 
-            if (options.bundleCss) {
-                if (options.combineCss) {
-                    html = combineCss(html, cssFiles, options.baseUrl || file.base);
-                } else {
-                    html = bundleCss(html, cssFiles, options.baseUrl || file.base);
-                }
-            } else if (options.minifyCssClasses) {
-                // Update the files with the minified source code
-                for (let filePath in cssFiles) {
-                    promises.push(fs.writeFile(filePath, cssFiles[filePath], "utf8"));
-                }
+            if (options.minifyCssVariables && !options.minifyGlobally) {
+                html = minifyCssVariables(html, cssFiles, jsFiles, options.variablesWhitelist || []);
+            }
+
+            if (!options.minifyCssClasses) {
+                // Nothing is renamed, but the placeholders left by the `css-class` helper still need replacing with the original names
+                html = replaceCssClasses(html, {}, {}, {});
+            }
+
+            if (options.minifyInlineCss) {
+                const minify = typeof options.minifyInlineCss === "function" ? options.minifyInlineCss : minifyCss;
+                await minifyInlineFiles(cssFiles, findBundledCss(html, baseUrl, options.bundleCss), minify, "css", assetCache);
+            }
+
+            if (options.minifyInlineJs) {
+                const minify = typeof options.minifyInlineJs === "function" ? options.minifyInlineJs : minifyJs;
+                await minifyInlineFiles(jsFiles, findBundledJs(html, baseUrl, options.bundleJs), minify, "js", assetCache);
+            }
+
+            // Tags can opt in or out of bundling with `data-bundle`, so these run even when bundling is turned off
+            if (options.combineCss) {
+                html = combineCss(html, cssFiles, baseUrl, options.bundleCss, assetCache);
+            } else {
+                html = bundleCss(html, cssFiles, baseUrl, options.bundleCss, assetCache);
+            }
+
+            if (options.combineJs) {
+                html = combineJs(html, jsFiles, baseUrl, options.bundleJs, assetCache);
+            } else {
+                html = bundleJs(html, jsFiles, baseUrl, options.bundleJs, assetCache);
+            }
+
+            if (minified) {
+                // Pass the minified source code of the files left unbundled along as new files, instead of overwriting the originals
+                const renameFile = (filePath: string, contents: string) => emitMinifiedAsset(file, filePath, contents, baseUrl);
+                html = relinkCss(html, cssFiles, baseUrl, renameFile);
+                html = relinkJs(html, jsFiles, baseUrl, renameFile);
+            }
+
+            html = removeBundleAttributes(html);
+
+            if (options.minifyHtml) {
+                // Before the integrity and content security policy, which add to the page (and hash its inline contents)
+                html = minifyHtml(html);
             }
 
-            if (options.bundleJs) {
-                if (options.combineJs) {
-                    html = combineJs(html, jsFiles, options.baseUrl || file.base);
+            if (options.subresourceIntegrity) {
+                html = await addSubresourceIntegrity(html, resolveBinaryAsset);
+            }
+
+            const outputPath = path.resolve(file.base, outputFileName);
+            if (options.cspHashes) {
+                // Done last, since the hashes must match the final contents of the page
+                const cspSources = createCspSources(html);
+                if (options.cspHashes === "json") {
+                    const parsedPath = path.parse(outputPath);
+                    pushFile(new Vinyl({
+                        base: file.base,
+                        path: path.join(parsedPath.dir, `${parsedPath.name}.csp.json`),
+                        contents: Buffer.from(JSON.stringify(cspSources, null, 2)),
+                    }), streamedFiles.has(file));
                 } else {
-                    html = bundleJs(html, jsFiles, options.baseUrl || file.base);
-                }
-            } else if (options.minifyCssClasses) {
-                // Update the files with the minified source code
-                for (let filePath in jsFiles) {
-                    promises.push(fs.writeFile(filePath, jsFiles[filePath], "utf8"));
+                    html = addCspMetaTag(html, cspSources);
                 }
             }
 
-            await Promise.all(promises);
-            promises.length = 0;
-
             const newFile = file.clone({ contents: false });
             newFile.contents = Buffer.from(html);
-            newFile.path = path.resolve(file.base, outputFileName);
-            stream.push(newFile);
+            newFile.path = outputPath;
+            pushFile(newFile, streamedFiles.has(file));
         } catch (error) {
-            stream.emit("error", new PluginError(PLUGIN_NAME, error));
+            reportError(createPluginError(error, { fileName: file.path }));
         }
     }
 
-    function onEndStream() {
+    /**
+     * Pushes a minified copy of a stylesheet or script into the stream, next to the original.
+     * The name of the copy includes a hash of its contents, since each page may minify the same file differently.
+     * Assets that were resolved from an absolute URL are output at the root instead.
+     * Returns the new file name.
+     */
+    function emitMinifiedAsset(file: Vinyl, filePath: string, contents: string, baseUrl: string): string {
+        const isUrl = ABSOLUTE_URL_REGEX.test(filePath);
+        const parsedPath = isUrl ? path.posix.parse(url.parse(filePath).pathname || "") : path.parse(filePath);
+        const hash = crypto.createHash("md5").update(contents).digest("hex").slice(0, 8);
+        const fileName = `${parsedPath.name}.${hash}${parsedPath.ext}`;
+        const assetDir = isUrl ? baseUrl : parsedPath.dir;
+        const outputPath = path.resolve(file.base, path.relative(baseUrl, assetDir), fileName);
+
+        if (!emittedAssets.has(outputPath)) {
+            emittedAssets.add(outputPath);
+
+            // Kept readable where the page's link to it resolves, eg. for computing the `integrity` of the renamed file
+            virtualFiles[path.resolve(assetDir, fileName)] = Buffer.from(contents);
+            pushFile(new Vinyl({
+                base: file.base,
+                path: outputPath,
+                contents: Buffer.from(contents),
+            }), streamedFiles.has(file));
+        }
+
+        return fileName;
+    }
+
+    function onEndStream(done: () => void) {
+        // The stream always ends, even when something went wrong along the way
+        renderAllTemplates()
+            .catch((error: Error) => reportError(createPluginError(error)))
+            .then(() => {
+                if (options.keepGoing && errors.length > 0) {
+                    stream.emit("error", createAggregateError(errors));
+                }
+
+                done();
+            });
+    }
+
+    async function renderAllTemplates() {
         const results: Promise<any>[] = [];
+        const extensions: HandlebarsExtensions = { helpers: {}, decorators: {} };
+
+        if (options.handlebars) {
+            try {
+                if (typeof options.helpers === "string") {
+                    loadHelpersDirectory(path.resolve(options.helpers), extensions);
+                } else {
+                    Object.assign(extensions.helpers, options.helpers);
+                }
+            } catch (error) {
+                reportError(createPluginError(error, { fileName: typeof options.helpers === "string" ? options.helpers : undefined }));
+            }
+
+            // Helpers passed through the stream win over the ones from the options
+            Object.assign(extensions.helpers, streamExtensions.helpers);
+            Object.assign(extensions.decorators, streamExtensions.decorators);
+
+            // Syntax errors are reported against the partial they are in, rather than each of the pages that use it
+            const hbs = typeof options.handlebars === "boolean" ? _handlebars : options.handlebars;
+            for (const [key, value] of Object.entries(partials)) {
+                try {
+                    hbs.parse(value);
+                } catch (error) {
+                    reportError(createPluginError(error, Object.assign({ fileName: partialPaths[key] }, locateParseError(error, 0))));
+                }
+            }
+        }
+
+        if (cache) {
+            // Every page depends on the helpers, and on the options that change how the pages are rendered
+            buildHash = hashContents([
+                ...Object.entries(extensions.helpers).map(([key, helper]) => `helper:${key}=${helper}`),
+                ...Object.entries(extensions.decorators).map(([key, decorator]) => `decorator:${key}=${decorator}`),
+                JSON.stringify([options.baseUrl, options.bundleCss, options.bundleJs, options.inlineCssUrls, options.inlineAssets, options.minifyCssClasses, options.minifyCssVariables]),
+            ].join("\n"));
+        }
+
+        const usedPageDataFiles = new Set<string>();
 
         for (const file of templates) {
             const ext = path.extname(file.path);
@@ -121,8 +655,11 @@ export = function gulpBundleHtml(options?: Options) {
             const contents = (file.contents as Buffer).toString("utf8");
 
             if (!options.handlebars) {
-                results.push(bundleOutputFile(file, name + ".html", () => contents, {}));
-            } else {
+                results.push(renderOutputFile(file, hashContents(contents), name + ".html", () => contents, {}));
+                continue;
+            }
+
+            try {
                 let hbs: typeof _handlebars;
 
                 if (typeof options.handlebars === "boolean") {
@@ -132,15 +669,73 @@ export = function gulpBundleHtml(options?: Options) {
                 }
 
                 for (const [key, value] of Object.entries(partials)) {
-                    hbs.registerPartial(key, value);
+                    if (cache) {
+                        // Compiled when first used (like handlebars does itself), noting that the page being rendered uses it
+                        let partial: _handlebars.TemplateDelegate | null = null;
+                        hbs.registerPartial(key, (partialContext: any, partialOptions: Handlebars.RuntimeOptions) => {
+                            recordDependency(currentDependencies, `partial:${key}`, value);
+                            partial = partial || compileCachedTemplate(hbs, value, cache.templates);
+                            return partial(partialContext, partialOptions);
+                        });
+                    } else {
+                        hbs.registerPartial(key, value);
+                    }
+                }
+
+                registerBuiltInHelpers(hbs, options.baseUrl || file.base, cache ? trackReadsSync(readBinaryFileSync, "file", () => currentDependencies) : readBinaryFileSync);
+                registerLayoutHelpers(hbs);
+                registerExtensions(hbs, extensions);
+
+                const frontMatter = parseFrontMatter(contents, file.path);
+
+                // The context is built up from the global data, then the data file next to the template, and then its front-matter
+                const parsedPath = path.parse(file.path);
+                const pageDataKey = path.join(parsedPath.dir, parsedPath.name);
+                const pageDataFile = pageDataFiles[pageDataKey];
+                let pageData: any = {};
+                if (pageDataFile) {
+                    usedPageDataFiles.add(pageDataKey);
+                    try {
+                        pageData = parseDataFile(pageDataFile.path, (pageDataFile.contents as Buffer).toString("utf8"));
+                    } catch (error) {
+                        reportError(createPluginError(error, { fileName: pageDataFile.path }));
+                        continue;
+                    }
                 }
+                const pageContext = Object.assign({}, globalData, pageData, frontMatter.attributes);
 
-                const template = hbs.compile(contents);
+                const source = frontMatter.attributes.layout ? wrapInLayout(frontMatter.body, frontMatter.attributes.layout) : frontMatter.body;
+                try {
+                    // Handlebars only compiles the template when it is first rendered, so check its syntax up front
+                    // (with the lines of the front-matter added back on)
+                    hbs.parse(source);
+                } catch (error) {
+                    const lineOffset = contents.slice(0, contents.length - frontMatter.body.length).split("\n").length - 1;
+                    reportError(createPluginError(error, Object.assign({ fileName: file.path }, locateParseError(error, lineOffset))));
+                    continue;
+                }
+
+                const template = cache ? compileCachedTemplate(hbs, source, cache.templates) : hbs.compile(source);
+                const templateHash = hashContents(source);
                 const outputFile = (outputFileName: string, context: any, templateOptions?: Handlebars.RuntimeOptions) => {
-                    results.push(bundleOutputFile(file, outputFileName, template, context, templateOptions));
+                    results.push(renderOutputFile(file, templateHash, outputFileName, template, Object.assign({}, pageContext, context), templateOptions));
                 };
 
-                if (options.renderTemplate) {
+                const templateName = name.split(path.sep).join("/");
+                const collections = (options.collections || []).filter((collection: Collection) => collection.template === templateName);
+
+                if (collections.length > 0) {
+                    for (const collection of collections) {
+                        try {
+                            const items = getCollectionItems(collection, pageContext, collectionFiles[options.collections.indexOf(collection)]);
+                            for (const page of createCollectionPages(collection, items, pageContext, hbs)) {
+                                outputFile(page.outputFileName, page.context);
+                            }
+                        } catch (error) {
+                            reportError(createPluginError(error, { fileName: file.path }));
+                        }
+                    }
+                } else if (options.renderTemplate) {
                     if (options.renderTemplate.length === 2) {
                         // If the `renderTemplate` function only takes 2 parameters,
                         // then assume that it is running synchronously
@@ -152,7 +747,7 @@ export = function gulpBundleHtml(options?: Options) {
 
                         const subresults: Promise<any>[] = [];
                         const subOutputFile = (outputFileName: string, context: any, templateOptions?: Handlebars.RuntimeOptions) => {
-                            subresults.push(bundleOutputFile(file, outputFileName, template, context, templateOptions));
+                            subresults.push(renderOutputFile(file, templateHash, outputFileName, template, Object.assign({}, pageContext, context), templateOptions));
                         };
 
                         let resolve: (chain: Promise<{}>) => void;
@@ -161,7 +756,9 @@ export = function gulpBundleHtml(options?: Options) {
                             resolve = _resolve;
                             reject = _reject;
                         });
-                        results.push(promise);
+
+                        // A failing template only fails its own pages
+                        results.push(promise.catch((error: Error) => reportError(createPluginError(error, { fileName: file.path }))));
 
                         options.renderTemplate(subOutputFile, name, (error?: Error) => {
                             if (error) {
@@ -174,12 +771,47 @@ export = function gulpBundleHtml(options?: Options) {
                 } else {
                     outputFile(name + ".html", {});
                 }
+            } catch (error) {
+                reportError(createPluginError(error, { fileName: file.path }));
             }
         }
 
-        Promise.all(results)
-            .then(() => {
-                superEnd()
-            });
+        // Data files that don't belong to a template are passed along untouched
+        for (const [key, file] of Object.entries(pageDataFiles)) {
+            if (!usedPageDataFiles.has(key)) {
+                pushFile(file, streamedFiles.has(file));
+            }
+        }
+
+        await Promise.all(results);
+        if (cache) {
+            // The pages of templates that were removed or renamed (or no longer output) would otherwise be kept forever
+            for (const key of Object.keys(cache.pages)) {
+                if (!cachedPageKeys.has(key)) {
+                    delete cache.pages[key];
+                }
+            }
+        }
+
+        if (hasFailed()) {
+            return;
+        }
+
+        if (options.minifyGlobally && (options.minifyCssClasses || options.minifyCssVariables)) {
+            try {
+                await minifyAcrossPages();
+            } catch (error) {
+                reportError(createPluginError(error));
+            }
+        }
+
+        await Promise.all(outputFiles.map(bundleOutputFile));
+        if (hasFailed()) {
+            return;
+        }
+
+        for (const asset of assets) {
+            pushFile(asset, streamedFiles.has(asset));
+        }
     }
 }
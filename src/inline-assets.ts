@@ -0,0 +1,140 @@
+import { MapLike } from "./map-like";
+import { ReadBinaryFile } from "./read-file";
+import { resolveAssetPath } from "./resolve-asset";
+import { createDataUri, getMimeType } from "./mime-types";
+import { createXmlAttrib } from "./string-util";
+import { HtmlToken, HtmlStartTag, HtmlEdit, tokenizeHtml, getAttributeValue, getAttributeValues, replaceAttributeValue, applyEdits } from "./html-tokenizer";
+import { ABSOLUTE_URL_REGEX, URL_SCHEME_REGEX, WS_REGEX } from "./regex";
+
+/**
+ * Embeds the images referenced by <img>, <source> and icon <link> tags into the page, for the files smaller than `maxSize` bytes.
+ * SVG images in <img> tags are replaced with the <svg> element itself, everything else becomes a `data:` URI.
+ */
+export async function inlineAssets(html: string, baseUrl: string, readBinaryFile: ReadBinaryFile, maxSize: number): Promise<string> {
+    async function readAsset(value: string): Promise<[string, Buffer] | undefined> {
+        if (!value || ABSOLUTE_URL_REGEX.test(value) || URL_SCHEME_REGEX.test(value) || value.startsWith("#")) {
+            return undefined;
+        }
+
+        const filePath = resolveAssetPath(value.replace(/[?#].*$/, ""), baseUrl);
+        if (!getMimeType(filePath)) {
+            return undefined;
+        }
+
+        try {
+            const contents = await readBinaryFile(filePath);
+            if (contents.length < maxSize) {
+                return [filePath, contents];
+            }
+        } catch (error) {
+            // Leave missing files for the browser to complain about
+        }
+
+        return undefined;
+    }
+
+    async function inlineUrl(value: string): Promise<string> {
+        const asset = await readAsset(value);
+        return asset ? createDataUri(asset[0], asset[1]) : value;
+    }
+
+    async function inlineSrcset(value: string): Promise<string> {
+        const candidates = await Promise.all(value.split(",").map(async (candidate: string) => {
+            const [candidateUrl, ...descriptors] = candidate.trim().split(/\s+/);
+            return [await inlineUrl(candidateUrl), ...descriptors].join(" ");
+        }));
+
+        return candidates.join(", ");
+    }
+
+    async function inlineAttributes(tag: HtmlStartTag, urlAttributes: string[]): Promise<HtmlEdit[]> {
+        const edits: HtmlEdit[] = [];
+
+        for (const attribute of tag.attributes) {
+            const value = (attribute.value || "").trim();
+            if (!value || urlAttributes.indexOf(attribute.name) < 0) {
+                continue;
+            }
+
+            const inlinedValue = attribute.name === "srcset" ? await inlineSrcset(value) : await inlineUrl(value);
+            if (inlinedValue !== value) {
+                edits.push(replaceAttributeValue(attribute, inlinedValue));
+            }
+        }
+
+        return edits;
+    }
+
+    async function inlineTag(tag: HtmlStartTag): Promise<HtmlEdit[]> {
+        if (tag.name === "img") {
+            const src = (getAttributeValue(tag, "src") || "").trim();
+
+            if (getMimeType(src.replace(/[?#].*$/, "")) === "image/svg+xml" && getAttributeValue(tag, "srcset") === undefined) {
+                const asset = await readAsset(src);
+                if (asset) {
+                    return [{ start: tag.start, end: tag.end, text: createInlineSvg(asset[1].toString("utf8"), getAttributeValues(tag)) }];
+                }
+            }
+
+            return inlineAttributes(tag, ["src", "srcset"]);
+        } else if (tag.name === "source") {
+            return inlineAttributes(tag, ["src", "srcset"]);
+        } else if (tag.name === "link") {
+            const rel = (getAttributeValue(tag, "rel") || "").trim().toLowerCase().split(WS_REGEX);
+            if (rel.indexOf("icon") >= 0 || rel.indexOf("apple-touch-icon") >= 0) {
+                return inlineAttributes(tag, ["href"]);
+            }
+        }
+
+        return [];
+    }
+
+    const promises: Promise<HtmlEdit[]>[] = [];
+    for (const token of tokenizeHtml(html)) {
+        if (token.type === "startTag" && !token.inert) {
+            promises.push(inlineTag(token));
+        }
+    }
+
+    const edits = await Promise.all(promises);
+    return applyEdits(html, ([] as HtmlEdit[]).concat(...edits));
+}
+
+/**
+ * Turns the contents of an SVG file into an inline <svg> element that takes the place of an <img> tag,
+ * carrying over the attributes of the <img> tag that still make sense (eg. `class`, `id` and `style`, and `alt` as the accessible label).
+ */
+function createInlineSvg(svg: string, imgAttributes: MapLike<string>): string {
+    // Anything before the <svg> tag (eg. the XML declaration, doctype and comments) is not allowed in HTML
+    const svgTag = tokenizeHtml(svg).find((token: HtmlToken) => token.type === "startTag" && token.name === "svg") as HtmlStartTag | undefined;
+    if (!svgTag) {
+        return svg;
+    }
+
+    const svgAttributes: MapLike<string> = {};
+    for (const attribute of svgTag.attributes) {
+        // Keep the case of the attributes, since SVG has attributes like `viewBox`
+        svgAttributes[svg.slice(attribute.start, attribute.start + attribute.name.length)] = attribute.value;
+    }
+
+    for (const attrib of ["id", "style", "width", "height"]) {
+        if (imgAttributes[attrib] !== undefined) {
+            svgAttributes[attrib] = imgAttributes[attrib];
+        }
+    }
+
+    if (imgAttributes["class"]) {
+        svgAttributes["class"] = [svgAttributes["class"], imgAttributes["class"]].filter(Boolean).join(" ");
+    }
+
+    if (imgAttributes["alt"]) {
+        svgAttributes["role"] = "img";
+        svgAttributes["aria-label"] = imgAttributes["alt"];
+    } else if (imgAttributes["alt"] !== undefined) {
+        // An empty alt means that the image is decorative
+        svgAttributes["aria-hidden"] = "true";
+    }
+
+    const tag = `<svg${Object.entries(svgAttributes).map(createXmlAttrib).join("")}${svgTag.selfClosing ? "/" : ""}>`;
+    return tag + svg.slice(svgTag.end).trim();
+}
@@ -0,0 +1,89 @@
+import * as _handlebars from "handlebars";
+import { MapLike } from "./map-like";
+
+interface BlockOverride {
+    mode: "replace" | "append" | "prepend";
+    fn: Handlebars.TemplateDelegate;
+    context: any;
+}
+
+const BLOCK_MODES = ["replace", "append", "prepend"];
+
+/** The overrides being collected from the body of an `{{#extends}}` */
+const COLLECTING_KEY = "_layoutBlocks";
+
+/** The overrides from each level of the page and its layouts, starting from the page itself */
+const OVERRIDES_KEY = "_layoutOverrides";
+
+/**
+ * Registers the helpers for layouts:
+ * - `{{#extends "base"}}...{{/extends}}` renders the page with the partial named `"base"` as its layout,
+ *   using the blocks defined inside of it (anything else inside of it is ignored).
+ *   Layouts can extend other layouts themselves.
+ * - `{{#block "content"}}...{{/block}}` inside of a layout marks a named region, with its contents as the default.
+ *   Inside of an `{{#extends}}` it fills that region instead, either replacing the default (the default),
+ *   or adding to it with `mode="append"` or `mode="prepend"`.
+ */
+export function registerLayoutHelpers(hbs: typeof _handlebars): void {
+    hbs.registerHelper("extends", function (this: any, name: string, options: Handlebars.HelperOptions) {
+        let layout = hbs.partials[name];
+        if (!layout) {
+            throw new Error(`The layout "${name}" could not be found`);
+        } else if (typeof layout === "string") {
+            layout = hbs.partials[name] = hbs.compile(layout);
+        }
+
+        // Collect the blocks defined by this level, the rest of the output is thrown away
+        const blocks: MapLike<BlockOverride[]> = {};
+        const collectingData = hbs.createFrame(options.data || {});
+        collectingData[COLLECTING_KEY] = blocks;
+        options.fn(this, { data: collectingData });
+
+        const layoutData = hbs.createFrame(options.data || {});
+        layoutData[COLLECTING_KEY] = undefined;
+        layoutData[OVERRIDES_KEY] = [...((options.data && options.data[OVERRIDES_KEY]) || []), blocks];
+
+        return new hbs.SafeString(layout(Object.assign({}, this, options.hash), { data: layoutData }));
+    });
+
+    hbs.registerHelper("block", function (this: any, name: string, options: Handlebars.HelperOptions) {
+        const mode = options.hash.mode || "replace";
+        if (BLOCK_MODES.indexOf(mode) < 0) {
+            throw new Error(`Unknown mode "${mode}" for the block "${name}", expected one of: ${BLOCK_MODES.join(", ")}`);
+        }
+
+        const data = options.data || {};
+        const blocks: MapLike<BlockOverride[]> | undefined = data[COLLECTING_KEY];
+        if (blocks) {
+            (blocks[name] = blocks[name] || []).push({ mode, fn: options.fn, context: this });
+            return "";
+        }
+
+        // The layout closest to this one is applied first, and the page itself last
+        const overrides: MapLike<BlockOverride[]>[] = data[OVERRIDES_KEY] || [];
+        let output = options.fn(this, { data });
+        for (let i = overrides.length - 1; i >= 0; --i) {
+            for (const override of overrides[i][name] || []) {
+                const content = override.fn(override.context, { data });
+
+                if (override.mode === "append") {
+                    output += content;
+                } else if (override.mode === "prepend") {
+                    output = content + output;
+                } else {
+                    output = content;
+                }
+            }
+        }
+
+        return new hbs.SafeString(output);
+    });
+}
+
+/**
+ * Wraps the body of a template in an `{{#extends}}` of the layout,
+ * for the templates that declare their layout in the front-matter instead.
+ */
+export function wrapInLayout(body: string, layout: string): string {
+    return `{{#extends ${JSON.stringify(layout)}}}${body}{{/extends}}`;
+}
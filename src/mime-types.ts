@@ -0,0 +1,37 @@
+import * as path from "path";
+import { MapLike } from "./map-like";
+
+export const MIME_TYPES: MapLike<string> = {
+    ".apng": "image/apng",
+    ".avif": "image/avif",
+    ".bmp": "image/bmp",
+    ".gif": "image/gif",
+    ".ico": "image/x-icon",
+    ".jpeg": "image/jpeg",
+    ".jpg": "image/jpeg",
+    ".png": "image/png",
+    ".svg": "image/svg+xml",
+    ".webp": "image/webp",
+
+    ".eot": "application/vnd.ms-fontobject",
+    ".otf": "font/otf",
+    ".ttf": "font/ttf",
+    ".woff": "font/woff",
+    ".woff2": "font/woff2",
+
+    ".mp3": "audio/mpeg",
+    ".mp4": "video/mp4",
+    ".ogg": "audio/ogg",
+    ".webm": "video/webm",
+};
+
+/**
+ * Gets the MIME type of a file from its extension, or `undefined` if it is not a known (binary) asset type.
+ */
+export function getMimeType(filePath: string): string | undefined {
+    return MIME_TYPES[path.extname(filePath).toLowerCase()];
+}
+
+export function createDataUri(filePath: string, contents: Buffer): string {
+    return `data:${getMimeType(filePath) || "application/octet-stream"};base64,${contents.toString("base64")}`;
+}
@@ -1,11 +1,28 @@
 import { PLUGIN_NAME } from "./options";
 import { MapLike } from "./map-like";
-import { stringSearch, createStringGenerator } from "./string-util";
-import { CSS_CLASS_REGEX, JS_CLASS_REGEX, HTML_CLASS_REGEX, WS_REGEX } from "./regex";
+import { stringSearch, createReplacementNames } from "./string-util";
+import { HtmlEdit, tokenizeHtml, replaceAttributeValue, applyEdits } from "./html-tokenizer";
+import { CSS_CLASS_REGEX, JS_CLASS_REGEX, CSS_CLASS_PLACEHOLDER_REGEX, WS_REGEX } from "./regex";
 
 export function minifyCssClasses(html: string, cssFiles: MapLike<string>, jsFiles: MapLike<string>, whitelist: string[]): string {
     const usageCounts: MapLike<number> = {};
+    countCssClasses(usageCounts, html, cssFiles, jsFiles, whitelist);
+    return replaceCssClasses(html, cssFiles, jsFiles, createCssClassNames(usageCounts));
+}
+
+/**
+ * Creates a placeholder for a css class name in the html, which is replaced with the minified name
+ * (or the original name, when not minifying) by `replaceCssClasses`.
+ */
+export function createCssClassPlaceholder(className: string): string {
+    return `\u0000css-class:${className}\u0000`;
+}
 
+/**
+ * Adds the number of times each css class is used in the given sources to `usageCounts`.
+ * Can be called repeatedly with the same `usageCounts` to collect the usage across multiple pages.
+ */
+export function countCssClasses(usageCounts: MapLike<number>, html: string, cssFiles: MapLike<string>, jsFiles: MapLike<string>, whitelist: string[]): void {
     function addCssClass(className: string) {
         // Check if this is a css class that should not be modified
         if (whitelist && whitelist.indexOf(className) >= 0) {
@@ -20,14 +37,31 @@ export function minifyCssClasses(html: string, cssFiles: MapLike<string>, jsFile
     }
 
     // HTML
-    stringSearch(html, HTML_CLASS_REGEX, (attribMatch: string, attrib: "class", sQuoteValue: string, dQuoteValue: string) => {
-        const classes = (sQuoteValue || dQuoteValue || "").trim();
-        const classList = classes.split(WS_REGEX);
-        for (const className of classList) {
-            addCssClass(className);
+    stringSearch(html, CSS_CLASS_PLACEHOLDER_REGEX, (placeholder: string, name: string) => addCssClass(name));
+    html = html.replace(CSS_CLASS_PLACEHOLDER_REGEX, "");
+
+    for (const token of tokenizeHtml(html)) {
+        if (token.type !== "startTag") {
+            continue;
+        }
+
+        for (const attribute of token.attributes) {
+            if (attribute.name === "class") {
+                // An empty list (eg. only the placeholders of the `css-class` helper, stripped above) splits into `[""]`
+                const classList = (attribute.value || "").trim().split(WS_REGEX).filter((className: string) => className);
+                for (const className of classList) {
+                    addCssClass(className);
+                }
+            } else if (attribute.value) {
+                // Sometimes there is inline javascript kept in some of the HTML attributes
+                stringSearch(attribute.value, JS_CLASS_REGEX, (jsFuncMatch: string, param: string) => addCssClass(parseCssClassName(param)));
+            }
+        }
+
+        if (token.name === "script") {
+            stringSearch(html.slice(token.contentStart, token.contentEnd), JS_CLASS_REGEX, (jsFuncMatch: string, param: string) => addCssClass(parseCssClassName(param)));
         }
-    });
-    stringSearch(html, JS_CLASS_REGEX, (jsFuncMatch: string, param: string) => addCssClass(parseCssClassName(param)));
+    }
 
     // CSS
     for (const fileName in cssFiles) {
@@ -40,44 +74,61 @@ export function minifyCssClasses(html: string, cssFiles: MapLike<string>, jsFile
         const jsFileContents = jsFiles[fileName];
         stringSearch(jsFileContents, JS_CLASS_REGEX, (jsFuncMatch: string, param: string) => addCssClass(parseCssClassName(param)));
     }
+}
 
-    // This is where the magic happens...
-    // Replace the old CSS class names with new short names, prioritizing the names used most
-    const orderedUsageCount: [string, number][] = [...Object.entries(usageCounts)].sort((a, b) => b[1] - a[1]);
-    const replacementNames: MapLike<string> = {};
-    const nameGenerator = createStringGenerator();
-    for (const [key, value] of orderedUsageCount) {
-        replacementNames[key] = nameGenerator.next().value;
+/**
+ * This is where the magic happens...
+ * Creates new short names for the old CSS class names, prioritizing the names used most.
+ * Class names found in `seed` (usually loaded from a previous build's manifest) keep their existing short name.
+ */
+export function createCssClassNames(usageCounts: MapLike<number>, seed?: MapLike<string>): MapLike<string> {
+    return createReplacementNames(usageCounts, (className: string) => {
+        console.warn(`${PLUGIN_NAME}: warning, css class "${className}" is only ever used once, consider removing`);
+    }, seed);
+}
+
+export function replaceCssClasses(html: string, cssFiles: MapLike<string>, jsFiles: MapLike<string>, replacementNames: MapLike<string>): string {
+    // HTML
+    const edits: HtmlEdit[] = [];
+    const replaceJsCssClassNames = (jsFuncMatch: string, param: string) => replaceCssClassName(param, replacementNames);
 
-        if (value <= 1) {
-            console.warn(`${PLUGIN_NAME}: warning, css class "${key}" is only ever used once, consider removing`);
+    for (const token of tokenizeHtml(html)) {
+        if (token.type !== "startTag") {
+            continue;
         }
-    }
 
-    // HTML
-    html = html.replace(HTML_CLASS_REGEX, (attribMatch: string, attrib: "class", sQuoteValue: string, dQuoteValue: string) => {
-        const classes = (sQuoteValue || dQuoteValue || "").trim();
-        const classList = classes.split(WS_REGEX)
-            .map((className: string) => {
-                if (className in replacementNames) {
-                    return replacementNames[className];
-                } else {
-                    return className;
+        for (const attribute of token.attributes) {
+            if (attribute.name === "class") {
+                const classList = (attribute.value || "").trim().split(WS_REGEX).filter((className: string) => className);
+                if (classList.some((className: string) => className in replacementNames)) {
+                    const replacedClassList = classList.map((className: string) => {
+                        if (className in replacementNames) {
+                            return replacementNames[className];
+                        } else {
+                            return className;
+                        }
+                    });
+
+                    edits.push(replaceAttributeValue(attribute, replacedClassList.join(" ")));
+                }
+            } else if (attribute.value) {
+                // Sometimes there is inline javascript kept in some of the HTML attributes,
+                // this allows us to handle those as well
+                const value = attribute.value.replace(JS_CLASS_REGEX, replaceJsCssClassNames);
+                if (value !== attribute.value) {
+                    edits.push(replaceAttributeValue(attribute, value));
                 }
-            })
-            .join(" ");
+            }
+        }
 
-        if (sQuoteValue) {
-            return `class='${classList}'`;
-        } else {
-            return `class="${classList}"`;
+        if (token.name === "script") {
+            const contents = html.slice(token.contentStart, token.contentEnd);
+            edits.push({ start: token.contentStart, end: token.contentEnd, text: contents.replace(JS_CLASS_REGEX, replaceJsCssClassNames) });
         }
-    });
-    html = html.replace(JS_CLASS_REGEX, (jsFuncMatch: string, param: string) => {
-        // Sometimes there is inline javascript kept in some of the HTML attributes,
-        // this allows us to handle those as well
-        return replaceCssClassName(param, replacementNames);
-    });
+    }
+
+    html = applyEdits(html, edits);
+    html = html.replace(CSS_CLASS_PLACEHOLDER_REGEX, (placeholder: string, name: string) => name in replacementNames ? replacementNames[name] : name);
 
     // CSS
     for (const fileName in cssFiles) {
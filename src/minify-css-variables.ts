@@ -0,0 +1,156 @@
+import { PLUGIN_NAME } from "./options";
+import { MapLike } from "./map-like";
+import { stringSearch, createReplacementNames } from "./string-util";
+import { mapCode } from "./minify-css";
+import { HtmlEdit, tokenizeHtml, replaceAttributeValue, applyEdits } from "./html-tokenizer";
+import { CSS_VARIABLE_REGEX, JS_VARIABLE_REGEX } from "./regex";
+
+export function minifyCssVariables(html: string, cssFiles: MapLike<string>, jsFiles: MapLike<string>, whitelist: string[]): string {
+    const usageCounts: MapLike<number> = {};
+    countCssVariables(usageCounts, html, cssFiles, jsFiles, whitelist);
+    return replaceCssVariables(html, cssFiles, jsFiles, createCssVariableNames(usageCounts, whitelist));
+}
+
+/**
+ * Adds the number of times each css variable is used in the given sources to `usageCounts`.
+ * The variable names are stored without their leading `"--"`.
+ */
+export function countCssVariables(usageCounts: MapLike<number>, html: string, cssFiles: MapLike<string>, jsFiles: MapLike<string>, whitelist: string[]): void {
+    whitelist = normalizeWhitelist(whitelist);
+
+    function addCssVariable(variableName: string) {
+        // Check if this is a css variable that should not be modified
+        if (whitelist.indexOf(variableName) >= 0) {
+            return;
+        }
+
+        if (variableName in usageCounts) {
+            ++usageCounts[variableName];
+        } else {
+            usageCounts[variableName] = 1;
+        }
+    }
+
+    // HTML
+    for (const token of tokenizeHtml(html)) {
+        if (token.type !== "startTag") {
+            continue;
+        }
+
+        for (const attribute of token.attributes) {
+            if (attribute.name === "style") {
+                searchCssVariables(attribute.value || "", addCssVariable);
+            } else if (attribute.value) {
+                stringSearch(attribute.value, JS_VARIABLE_REGEX, (jsFuncMatch: string, prefix: string, quote: string, name: string) => addCssVariable(name));
+            }
+        }
+
+        if (token.name === "script") {
+            stringSearch(html.slice(token.contentStart, token.contentEnd), JS_VARIABLE_REGEX, (jsFuncMatch: string, prefix: string, quote: string, name: string) => addCssVariable(name));
+        } else if (token.name === "style") {
+            searchCssVariables(html.slice(token.contentStart, token.contentEnd), addCssVariable);
+        }
+    }
+
+    // CSS
+    for (const fileName in cssFiles) {
+        searchCssVariables(cssFiles[fileName], addCssVariable);
+    }
+
+    // JS
+    for (const fileName in jsFiles) {
+        const jsFileContents = jsFiles[fileName];
+        stringSearch(jsFileContents, JS_VARIABLE_REGEX, (jsFuncMatch: string, prefix: string, quote: string, name: string) => addCssVariable(name));
+    }
+}
+
+/**
+ * Creates new short names for the old CSS variable names, prioritizing the names used most.
+ * Variable names found in `seed` keep their existing short name (both without their leading `"--"`),
+ * and none of the new names clash with the names in the `whitelist`, which are kept as they are.
+ */
+export function createCssVariableNames(usageCounts: MapLike<number>, whitelist: string[], seed?: MapLike<string>): MapLike<string> {
+    return createReplacementNames(usageCounts, (variableName: string) => {
+        console.warn(`${PLUGIN_NAME}: warning, css variable "--${variableName}" is only ever used once, consider removing`);
+    }, seed, normalizeWhitelist(whitelist));
+}
+
+export function replaceCssVariables(html: string, cssFiles: MapLike<string>, jsFiles: MapLike<string>, replacementNames: MapLike<string>): string {
+    const replaceCssVariable = (variableMatch: string, name: string) => {
+        if (name in replacementNames) {
+            return `--${replacementNames[name]}`;
+        } else {
+            return variableMatch;
+        }
+    };
+    const replaceJsVariable = (jsFuncMatch: string, prefix: string, quote: string, name: string) => {
+        if (name in replacementNames) {
+            return `${prefix}--${replacementNames[name]}`;
+        } else {
+            return jsFuncMatch;
+        }
+    };
+
+    // HTML
+    const edits: HtmlEdit[] = [];
+    for (const token of tokenizeHtml(html)) {
+        if (token.type !== "startTag") {
+            continue;
+        }
+
+        for (const attribute of token.attributes) {
+            if (attribute.value) {
+                const value = attribute.name === "style"
+                    ? mapCssVariables(attribute.value, replaceCssVariable)
+                    : attribute.value.replace(JS_VARIABLE_REGEX, replaceJsVariable);
+
+                if (value !== attribute.value) {
+                    edits.push(replaceAttributeValue(attribute, value));
+                }
+            }
+        }
+
+        if (token.name === "script") {
+            const contents = html.slice(token.contentStart, token.contentEnd);
+            edits.push({ start: token.contentStart, end: token.contentEnd, text: contents.replace(JS_VARIABLE_REGEX, replaceJsVariable) });
+        } else if (token.name === "style") {
+            const contents = html.slice(token.contentStart, token.contentEnd);
+            edits.push({ start: token.contentStart, end: token.contentEnd, text: mapCssVariables(contents, replaceCssVariable) });
+        }
+    }
+
+    html = applyEdits(html, edits);
+
+    // CSS
+    for (const fileName in cssFiles) {
+        cssFiles[fileName] = mapCssVariables(cssFiles[fileName], replaceCssVariable);
+    }
+
+    // JS
+    for (const fileName in jsFiles) {
+        jsFiles[fileName] = jsFiles[fileName].replace(JS_VARIABLE_REGEX, replaceJsVariable);
+    }
+
+    return html;
+}
+
+/**
+ * Allows the whitelist to contain names both with and without the leading `"--"`.
+ */
+function normalizeWhitelist(whitelist: string[]): string[] {
+    return (whitelist || []).map((name: string) => name.startsWith("--") ? name.slice(2) : name);
+}
+
+/**
+ * Replaces the css variables in some css using `replace`, skipping the strings, `url()`s and comments (eg. `content: "--"`).
+ */
+function mapCssVariables(css: string, replace: (variableMatch: string, name: string) => string): string {
+    return mapCode(css, (code: string) => code.replace(CSS_VARIABLE_REGEX, replace));
+}
+
+function searchCssVariables(css: string, addCssVariable: (name: string) => void): void {
+    mapCssVariables(css, (variableMatch: string, name: string) => {
+        addCssVariable(name);
+        return variableMatch;
+    });
+}
@@ -0,0 +1,291 @@
+import { matchAt } from "./string-util";
+
+/**
+ * A rule (`prelude{...}`) or a statement (eg. `@import "a.css"`, or a declaration) in a list of rules.
+ * `children` are set for rules that contain other rules (eg. `@media`), `declarations` for the rest.
+ */
+interface CssNode {
+    prelude: string;
+    declarations?: string[];
+    children?: CssNode[];
+}
+
+const URL_START_REGEX = /(?<![\w-])url\(/iy;
+const HEX_COLOR_REGEX = /#([0-9a-f])\1([0-9a-f])\2([0-9a-f])\3(?:([0-9a-f])\4)?(?![0-9a-f])/gi;
+const LEADING_ZERO_REGEX = /(^|[\s,(:\/*+-])0+\.(\d)/g;
+const ZERO_LENGTH_REGEX = /(^|[\s,])(-?)0*\.?0+(?:px|em|rem|ex|ch|vw|vh|vmin|vmax|cm|mm|in|pt|pc|q)(?=$|[\s,!])/gi;
+
+/** Properties whose zero lengths keep their units, since older engines (eg. IE 10 and 11) read a unitless `0` in `flex: 1 1 0px` differently */
+const UNIT_PROPERTY_REGEX = /^(?:-[a-z]+-)?flex(?:-basis)?$/i;
+
+/** Punctuation that never needs the whitespace before or after it (`:` is missing from the first, since `a :hover` differs from `a:hover`) */
+const SPACELESS_BEFORE = ["{", "}", ";", ",", ")"];
+const SPACELESS_AFTER = ["{", "}", ";", ",", "(", ":"];
+
+/** Selectors that browsers without support for them drop the whole rule for, so they are never merged with others */
+const VENDOR_SELECTOR_REGEX = /:-/;
+
+/**
+ * A minifier for stylesheets that needs nothing but the stylesheet itself:
+ * - removes comments (except the ones starting with `/*!`, eg. licenses) and whitespace that isn't needed
+ * - shortens colors (`#aabbcc` to `#abc`) and numbers (`0.5` to `.5`, `0px` to `0`) in the values of declarations
+ *   (except for the units in `calc()` and the like, and in `flex` and `flex-basis`)
+ * - removes rules repeated later on, and merges rules next to each other that have the same selectors or the same declarations
+ *
+ * Strings, `url()`s and custom properties (`--name: value`) are left as they are.
+ */
+export function minifyCss(css: string): string {
+    return stringifyNodes(mergeNodes(parseNodes(compactCss(css), { pos: 0 }, false)));
+}
+
+/**
+ * Removes the comments and whitespace that aren't needed, keeping the strings and `url()`s as they are.
+ */
+function compactCss(css: string): string {
+    let output = "";
+    let i = 0;
+
+    // Whether whitespace at this point is never needed, eg. after punctuation (`a, b` or `calc( 1px )`),
+    // or after a comment that is itself in such a place
+    let spaceless = true;
+
+    while (i < css.length) {
+        const c = css[i];
+
+        if (c === "/" && css[i + 1] === "*") {
+            const end = css.indexOf("*/", i + 2);
+            const commentEnd = end < 0 ? css.length : end + 2;
+            if (css[i + 2] === "!") {
+                output += css.slice(i, commentEnd);
+            } else if (!spaceless && !output.endsWith(" ")) {
+                // A comment still separates the things on either side of it
+                output += " ";
+            }
+            i = commentEnd;
+            continue;
+        } else if (c === "'" || c === "\"") {
+            const end = findStringEnd(css, i);
+            output += css.slice(i, end);
+            i = end;
+        } else if (matchAt(URL_START_REGEX, css, i)) {
+            const end = findUrlEnd(css, i + 4);
+            output += css.slice(i, end);
+            i = end;
+        } else if (/\s/.test(c)) {
+            while (i < css.length && /\s/.test(css[i])) {
+                ++i;
+            }
+            if (!spaceless && !output.endsWith(" ")) {
+                output += " ";
+            }
+            continue;
+        } else {
+            if (SPACELESS_BEFORE.indexOf(c) >= 0 && output.endsWith(" ")) {
+                output = output.slice(0, -1);
+            }
+            output += c;
+            ++i;
+        }
+
+        spaceless = SPACELESS_AFTER.indexOf(output[output.length - 1]) >= 0;
+    }
+
+    return output.trim();
+}
+
+function findStringEnd(css: string, start: number): number {
+    const quote = css[start];
+    let i = start + 1;
+    while (i < css.length && css[i] !== quote && css[i] !== "\n") {
+        i += css[i] === "\\" ? 2 : 1;
+    }
+
+    return Math.min(i + 1, css.length);
+}
+
+function findUrlEnd(css: string, start: number): number {
+    let i = start;
+    while (i < css.length && css[i] !== ")") {
+        if (css[i] === "'" || css[i] === "\"") {
+            i = findStringEnd(css, i);
+        } else {
+            i += css[i] === "\\" ? 2 : 1;
+        }
+    }
+
+    return Math.min(i + 1, css.length);
+}
+
+/**
+ * Replaces the parts of some css outside of the strings, `url()`s and comments using `replace`, with the depth of parentheses they are at.
+ */
+export function mapCode(css: string, replace: (code: string, depth: number) => string): string {
+    const output: string[] = [];
+    let depth = 0;
+    let start = 0;
+    let i = 0;
+
+    const flush = (end: number) => {
+        if (end > start) {
+            output.push(replace(css.slice(start, end), depth));
+        }
+    };
+
+    while (i < css.length) {
+        const c = css[i];
+        let end = i;
+
+        if (c === "'" || c === "\"") {
+            end = findStringEnd(css, i);
+        } else if (matchAt(URL_START_REGEX, css, i)) {
+            end = findUrlEnd(css, i + 4);
+        } else if (c === "/" && css[i + 1] === "*") {
+            const commentEnd = css.indexOf("*/", i + 2);
+            end = commentEnd < 0 ? css.length : commentEnd + 2;
+        } else if (c === "(" || c === ")") {
+            flush(i + (c === "(" ? 1 : 0));
+            start = i + (c === "(" ? 1 : 0);
+            depth = Math.max(0, depth + (c === "(" ? 1 : -1));
+            ++i;
+            continue;
+        } else {
+            ++i;
+            continue;
+        }
+
+        flush(i);
+        output.push(css.slice(i, end));
+        start = i = end;
+    }
+
+    flush(css.length);
+    return output.join("");
+}
+
+/**
+ * Splits compacted css into its rules and statements, up to the end of the block that `state.pos` is in.
+ */
+function parseNodes(css: string, state: { pos: number }, nested: boolean): CssNode[] {
+    const nodes: CssNode[] = [];
+    let start = state.pos;
+
+    while (state.pos < css.length) {
+        const c = css[state.pos];
+
+        if (c === "'" || c === "\"") {
+            state.pos = findStringEnd(css, state.pos);
+        } else if (matchAt(URL_START_REGEX, css, state.pos)) {
+            state.pos = findUrlEnd(css, state.pos + 4);
+        } else if (c === "/" && css[state.pos + 1] === "*") {
+            const end = css.indexOf("*/", state.pos + 2);
+            state.pos = end < 0 ? css.length : end + 2;
+        } else if (c === ";") {
+            pushStatement(nodes, css.slice(start, state.pos));
+            start = ++state.pos;
+        } else if (c === "{") {
+            const prelude = css.slice(start, state.pos);
+            ++state.pos;
+
+            const children = parseNodes(css, state, true);
+            if (children.every((child: CssNode) => !child.declarations && !child.children)) {
+                nodes.push({ prelude, declarations: children.map((child: CssNode) => child.prelude) });
+            } else {
+                nodes.push({ prelude, children });
+            }
+            start = state.pos;
+        } else if (c === "}" && nested) {
+            pushStatement(nodes, css.slice(start, state.pos));
+            ++state.pos;
+            return nodes;
+        } else {
+            ++state.pos;
+        }
+    }
+
+    pushStatement(nodes, css.slice(start, state.pos));
+    return nodes;
+}
+
+function pushStatement(nodes: CssNode[], text: string) {
+    if (text.trim()) {
+        nodes.push({ prelude: text.trim() });
+    }
+}
+
+/**
+ * Removes the rules that are repeated later on in the same list (the later one wins either way),
+ * and then merges the rules next to each other that have the same selectors, or the same declarations.
+ */
+function mergeNodes(nodes: CssNode[]): CssNode[] {
+    for (const node of nodes) {
+        if ((node.children || node.declarations) && !node.prelude.startsWith("@")) {
+            // The spaces around combinators, eg. `a > b`
+            node.prelude = mapCode(node.prelude, (code: string, depth: number) => depth === 0 ? code.replace(/ ?([>+~]) ?/g, "$1") : code);
+        }
+
+        if (node.children) {
+            node.children = mergeNodes(node.children);
+        } else if (node.declarations) {
+            node.declarations = node.declarations.map(minifyDeclaration);
+        }
+    }
+
+    const keys = nodes.map((node: CssNode) => node.declarations ? `${node.prelude}{${node.declarations.join(";")}}` : null);
+    const unique = nodes.filter((node: CssNode, i: number) => keys[i] === null || keys.indexOf(keys[i], i + 1) < 0);
+
+    const merged: CssNode[] = [];
+    for (const node of unique) {
+        const last = merged[merged.length - 1];
+        if (last && last.declarations && node.declarations && canMerge(last.prelude) && canMerge(node.prelude)) {
+            if (last.prelude === node.prelude) {
+                last.declarations = [...last.declarations, ...node.declarations];
+                continue;
+            } else if (last.declarations.join(";") === node.declarations.join(";")) {
+                last.prelude = `${last.prelude},${node.prelude}`;
+                continue;
+            }
+        }
+
+        merged.push({ prelude: node.prelude, declarations: node.declarations && [...node.declarations], children: node.children });
+    }
+
+    return merged;
+}
+
+function canMerge(prelude: string): boolean {
+    return !prelude.startsWith("@") && !VENDOR_SELECTOR_REGEX.test(prelude);
+}
+
+function minifyDeclaration(declaration: string): string {
+    const colon = declaration.indexOf(":");
+    if (colon < 0 || declaration.startsWith("--")) {
+        return declaration;
+    }
+
+    const property = declaration.slice(0, colon).trim();
+    const keepUnits = UNIT_PROPERTY_REGEX.test(property);
+
+    const value = mapCode(declaration.slice(colon + 1), (code: string, depth: number) => {
+        code = code
+            .replace(HEX_COLOR_REGEX, (color: string, r: string, g: string, b: string, a?: string) => `#${r}${g}${b}${a || ""}`.toLowerCase())
+            .replace(LEADING_ZERO_REGEX, "$1.$2");
+
+        // Units are needed inside of `calc()` and the like, and in `flex`
+        return depth === 0 && !keepUnits ? code.replace(ZERO_LENGTH_REGEX, "$1$2" + "0").replace(/(^|[\s,])-0(?=$|[\s,!])/g, "$10") : code;
+    });
+
+    return `${property}:${value}`;
+}
+
+function stringifyNodes(nodes: CssNode[]): string {
+    return nodes.map((node: CssNode, i: number) => {
+        if (node.children) {
+            return `${node.prelude}{${stringifyNodes(node.children)}}`;
+        } else if (node.declarations) {
+            return `${node.prelude}{${node.declarations.join(";")}}`;
+        } else {
+            // The `;` after a statement is only needed when something follows it
+            return node.prelude + (i < nodes.length - 1 ? ";" : "");
+        }
+    }).join("");
+}
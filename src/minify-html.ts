@@ -0,0 +1,132 @@
+import { HtmlToken, HtmlStartTag, HtmlAttribute, tokenizeHtml } from "./html-tokenizer";
+import { WS_REGEX } from "./regex";
+
+/** Elements laid out inline with the text around them, so the whitespace next to them is kept (collapsed to a single space) */
+const INLINE_ELEMENTS = [
+    "a", "abbr", "acronym", "audio", "b", "bdi", "bdo", "big", "br", "button", "canvas", "cite", "code", "data", "del", "dfn",
+    "em", "embed", "font", "i", "iframe", "img", "input", "ins", "kbd", "label", "mark", "math", "meter", "nobr", "object",
+    "output", "picture", "progress", "q", "ruby", "s", "samp", "select", "slot", "small", "span", "strike", "strong", "sub",
+    "sup", "svg", "textarea", "time", "tt", "u", "var", "video", "wbr",
+];
+
+const BOOLEAN_ATTRIBUTES = [
+    "allowfullscreen", "async", "autofocus", "autoplay", "checked", "controls", "default", "defer", "disabled", "formnovalidate",
+    "hidden", "inert", "ismap", "itemscope", "loop", "multiple", "muted", "nomodule", "novalidate", "open", "playsinline",
+    "readonly", "required", "reversed", "selected",
+];
+
+/** Comments that are kept: conditional comments, and the ones starting with "keep", eg. `<!-- keep: license -->` */
+const KEEP_COMMENT_REGEX = /^<!--(\[if\b|<!\[endif\]|\s*keep\b)|^<!\[(if\b|endif\])/i;
+
+/** Values that can do without quotes (a trailing "/" could be mistaken for the end of a self-closing tag) */
+const UNQUOTED_VALUE_REGEX = /^[^\s"'=<>`]*[^\s"'=<>`\/]$/;
+
+/**
+ * An item of the html left after removing comments, with the text around each removed comment joined together.
+ */
+interface HtmlItem {
+    token: HtmlToken;
+    text: string;
+}
+
+/**
+ * Minifies html:
+ * - removes comments, except conditional comments and ones starting with "keep" (eg. `<!-- keep -->`)
+ * - collapses whitespace, removing it between block elements but keeping a single space next to inline elements and text
+ *   (the contents of <pre>, <textarea>, <script> and <style> are left as they are)
+ * - removes the quotes around attribute values that don't need them, and the values of boolean attributes (eg. `disabled="disabled"`)
+ * - sorts the class lists (dropping any repeated names), which helps compression (the names themselves are left to `minifyCssClasses`)
+ */
+export function minifyHtml(html: string): string {
+    const items: HtmlItem[] = [];
+    for (const token of tokenizeHtml(html)) {
+        const source = html.slice(token.start, token.end);
+        const last = items[items.length - 1];
+
+        if (token.type === "comment" && !KEEP_COMMENT_REGEX.test(source)) {
+            continue;
+        } else if (token.type === "text" && last && last.token.type === "text") {
+            last.text += source;
+        } else {
+            items.push({ token, text: source });
+        }
+    }
+
+    const output: string[] = [];
+    let preDepth = 0;
+
+    items.forEach(({ token, text }: HtmlItem, i: number) => {
+        if (token.type === "startTag") {
+            output.push(minifyStartTag(html, token));
+            if (token.name === "pre" && !token.selfClosing) {
+                ++preDepth;
+            }
+        } else if (token.type === "endTag") {
+            output.push(text);
+            if (token.name === "pre" && preDepth > 0) {
+                --preDepth;
+            }
+        } else if (token.type === "text" && preDepth === 0) {
+            text = text.replace(/\s+/g, " ");
+            if (!isInline(items[i - 1])) {
+                text = text.replace(/^ /, "");
+            }
+            if (!isInline(items[i + 1])) {
+                text = text.replace(/ $/, "");
+            }
+            output.push(text);
+        } else {
+            output.push(text);
+        }
+    });
+
+    return output.join("");
+}
+
+function isInline(item: HtmlItem | undefined): boolean {
+    if (!item) {
+        return false;
+    } else if (item.token.type === "startTag" || item.token.type === "endTag") {
+        return INLINE_ELEMENTS.indexOf(item.token.name) >= 0;
+    } else {
+        return item.token.type === "text" || item.token.type === "rawText";
+    }
+}
+
+function minifyStartTag(html: string, tag: HtmlStartTag): string {
+    // The names are taken from the source, since case matters in SVG (eg. <linearGradient viewBox="...">)
+    const name = html.substr(tag.start + 1, tag.name.length);
+    const attributes = tag.attributes.map((attribute: HtmlAttribute) => minifyAttribute(html, attribute));
+
+    let output = `<${name}${attributes.map((attribute: string) => ` ${attribute}`).join("")}`;
+    if (tag.selfClosing) {
+        // An unquoted value would run into the "/"
+        output += attributes.length > 0 && /=[^"']+$/.test(attributes[attributes.length - 1]) ? " />" : "/>";
+    } else {
+        output += ">";
+    }
+
+    return output;
+}
+
+function minifyAttribute(html: string, attribute: HtmlAttribute): string {
+    const name = html.substr(attribute.start, attribute.name.length);
+    let value = attribute.value;
+
+    if (value === undefined) {
+        return name;
+    } else if (BOOLEAN_ATTRIBUTES.indexOf(attribute.name) >= 0 && (value === "" || value.toLowerCase() === attribute.name)) {
+        return name;
+    }
+
+    if (attribute.name === "class") {
+        value = [...new Set(value.trim().split(WS_REGEX).filter((className: string) => className))].sort().join(" ");
+    }
+
+    if (UNQUOTED_VALUE_REGEX.test(value)) {
+        return `${name}=${value}`;
+    } else {
+        const quote = attribute.quote || (value.indexOf("\"") >= 0 ? "'" : "\"");
+        return `${name}=${quote}${value}${quote}`;
+    }
+}
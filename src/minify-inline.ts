@@ -0,0 +1,29 @@
+import { MapLike } from "./map-like";
+import { InlineMinifier } from "./options";
+import { AssetCache, getCachedResult } from "./asset-cache";
+import { hashContents } from "./build-cache";
+
+/**
+ * Minifies the files in `files` (the stylesheets or scripts of a page) that are about to be bundled into the page, in place.
+ * Each distinct file is only minified once for the whole build, and shared by every page that bundles it.
+ */
+export async function minifyInlineFiles(
+    files: MapLike<string>,
+    filePaths: string[],
+    minify: InlineMinifier,
+    kind: "css" | "js",
+    assetCache?: AssetCache,
+) {
+    const uniquePaths = [...new Set(filePaths)].filter((filePath: string) => files[filePath]);
+
+    await Promise.all(uniquePaths.map(async (filePath: string) => {
+        const contents = files[filePath];
+        const key = `minify-${kind}\0${filePath}\0${hashContents(contents)}`;
+
+        files[filePath] = await getCachedResult(assetCache, key, () => Promise.resolve()
+            .then(() => minify(contents, filePath))
+            .catch((error: Error) => {
+                throw new Error(`Could not minify "${filePath}": ${error.message}`);
+            }));
+    }));
+}
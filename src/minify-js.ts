@@ -0,0 +1,210 @@
+import { REGEX_PREFIXES } from "./escape-inline";
+import { matchAt } from "./string-util";
+
+type JsTokenType = "word" | "punctuator" | "string" | "template" | "regex" | "comment";
+
+/**
+ * A token of a script, where `word` covers identifiers, keywords and numbers,
+ * and `template` is a part of a template literal up to (and including) the start of a substitution.
+ */
+interface JsToken {
+    type: JsTokenType;
+    text: string;
+
+    /** Whether there was a line break between this token and the one before it */
+    newlineBefore: boolean;
+}
+
+const NUMBER_REGEX = /(?:0[xXbBoO][\da-fA-F_]+|(?:\d[\d_]*\.?[\d_]*|\.\d[\d_]*)(?:[eE][+-]?\d[\d_]*)?)n?/y;
+const WORD_REGEX = /(?:[\w$\u0080-\uffff]|\\u(?:\{[\da-fA-F]+\}|[\da-fA-F]{4}))+/y;
+const PUNCTUATOR_REGEX = /(?:>>>=|\.\.\.|===|!==|\*\*=|<<=|>>=|>>>|&&=|\|\|=|\?\?=|=>|==|!=|<=|>=|&&|\|\||\?\?|\?\.(?!\d)|\+\+|--|[+\-*\/%&|^]=|\*\*|<<|>>|[\s\S])/y;
+const WORD_CHAR_REGEX = /[\w$\\\u0080-\uffff]/;
+const NEWLINE_REGEX = /[\n\r\u2028\u2029]/;
+
+/**
+ * Punctuators that can't start a statement, so a line break before them never ends the statement (eg. `a\n.b`).
+ * `(`, `[`, `+`, `-`, `/` and the like are missing on purpose, since they can.
+ */
+const CONTINUING_PUNCTUATORS = [
+    ")", "]", "}", ",", ";", ".", "?.", "?", ":", "=", "==", "===", "!=", "!==", "<", ">", "<=", ">=", "*", "**", "%",
+    "&", "|", "^", "&&", "||", "??", "<<", ">>", ">>>", "+=", "-=", "*=", "/=", "%=", "&=", "|=", "^=", "**=", "<<=", ">>=",
+    ">>>=", "&&=", "||=", "??=", "=>",
+];
+
+/**
+ * A minifier for scripts that needs nothing but the script itself: it removes the comments
+ * (except the ones starting with `/*!`, eg. licenses) and the whitespace that isn't needed.
+ * Line breaks are only removed where they can't end a statement, so automatic semicolon insertion works the same as before;
+ * strings, template literals and regular expressions are left as they are.
+ */
+export function minifyJs(js: string): string {
+    const output: string[] = [];
+    let prev: JsToken | null = null;
+
+    for (const token of tokenizeJs(js)) {
+        if (prev) {
+            if (token.type === "comment" || prev.type === "comment") {
+                output.push(token.newlineBefore ? "\n" : "");
+            } else if (token.newlineBefore && !canContinueAfter(prev) && !canContinueBefore(token)) {
+                output.push("\n");
+            } else if (needsSpace(prev, token)) {
+                output.push(" ");
+            }
+        }
+
+        output.push(token.text);
+        prev = token;
+    }
+
+    return output.join("");
+}
+
+function tokenizeJs(js: string): JsToken[] {
+    const tokens: JsToken[] = [];
+    const templateBraceDepths: number[] = [];
+    let braceDepth = 0;
+    let newlineBefore = false;
+    let lastToken: JsToken | null = null;
+
+    for (let i = 0; i < js.length;) {
+        const c = js[i];
+        const next = js[i + 1];
+        const start = i;
+        let type: JsTokenType;
+
+        if (/\s/.test(c)) {
+            newlineBefore = newlineBefore || NEWLINE_REGEX.test(c);
+            ++i;
+            continue;
+        } else if (c === "/" && next === "/") {
+            while (i < js.length && !NEWLINE_REGEX.test(js[i])) {
+                ++i;
+            }
+            continue;
+        } else if (c === "/" && next === "*") {
+            const end = js.indexOf("*/", i + 2);
+            i = end < 0 ? js.length : end + 2;
+            if (js[start + 2] !== "!") {
+                // A comment with a line break in it still ends the line, as far as automatic semicolon insertion is concerned
+                newlineBefore = newlineBefore || NEWLINE_REGEX.test(js.slice(start, i));
+                continue;
+            }
+            type = "comment";
+        } else if (c === "'" || c === "\"") {
+            ++i;
+            while (i < js.length && js[i] !== c && !NEWLINE_REGEX.test(js[i])) {
+                i += js[i] === "\\" ? 2 : 1;
+            }
+            i = Math.min(i + 1, js.length);
+            type = "string";
+        } else if (c === "`" || (c === "}" && templateBraceDepths.length > 0 && templateBraceDepths[templateBraceDepths.length - 1] === braceDepth)) {
+            if (c === "}") {
+                // The end of a `${...}` substitution, back into the template literal
+                templateBraceDepths.pop();
+            }
+            ++i;
+            while (i < js.length) {
+                if (js[i] === "\\") {
+                    i += 2;
+                } else if (js[i] === "`") {
+                    ++i;
+                    break;
+                } else if (js[i] === "$" && js[i + 1] === "{") {
+                    i += 2;
+                    templateBraceDepths.push(braceDepth);
+                    break;
+                } else {
+                    ++i;
+                }
+            }
+            i = Math.min(i, js.length);
+            type = "template";
+        } else if (c === "/" && isRegexAllowed(lastToken)) {
+            let inClass = false;
+            ++i;
+            while (i < js.length && !NEWLINE_REGEX.test(js[i])) {
+                if (js[i] === "\\") {
+                    i += 2;
+                    continue;
+                } else if (js[i] === "/" && !inClass) {
+                    ++i;
+                    break;
+                } else if (js[i] === "[") {
+                    inClass = true;
+                } else if (js[i] === "]") {
+                    inClass = false;
+                }
+                ++i;
+            }
+            i = Math.min(i, js.length);
+            i += matchAt(WORD_REGEX, js, i).length;
+            type = "regex";
+        } else if (/\d/.test(c) || (c === "." && /\d/.test(next || ""))) {
+            i += matchAt(NUMBER_REGEX, js, i).length;
+            i += matchAt(WORD_REGEX, js, i).length;
+            type = "word";
+        } else if (WORD_CHAR_REGEX.test(c)) {
+            i += Math.max(1, matchAt(WORD_REGEX, js, i).length);
+            type = "word";
+        } else {
+            i += matchAt(PUNCTUATOR_REGEX, js, i).length;
+            type = "punctuator";
+            if (c === "{") {
+                ++braceDepth;
+            } else if (c === "}") {
+                --braceDepth;
+            }
+        }
+
+        const token: JsToken = { type, text: js.slice(start, i), newlineBefore };
+        tokens.push(token);
+        newlineBefore = false;
+        if (type !== "comment") {
+            lastToken = token;
+        }
+    }
+
+    return tokens;
+}
+
+/**
+ * Whether a `/` after the token starts a regular expression, rather than being a division.
+ */
+function isRegexAllowed(token: JsToken | null): boolean {
+    if (!token) {
+        return true;
+    } else if (token.type === "punctuator") {
+        return token.text !== "++" && token.text !== "--" && REGEX_PREFIXES.indexOf(token.text.slice(-1)) >= 0;
+    } else if (token.type === "word") {
+        return REGEX_PREFIXES.indexOf(token.text) >= 0;
+    } else {
+        return token.type === "template" && token.text.endsWith("${");
+    }
+}
+
+/**
+ * Whether a line break after the token can be removed, because the statement can't end there (eg. after `=` or `,`).
+ */
+function canContinueAfter(token: JsToken): boolean {
+    return token.type === "punctuator" && [")", "]", "}", "++", "--"].indexOf(token.text) < 0;
+}
+
+function canContinueBefore(token: JsToken): boolean {
+    return token.type === "punctuator" && CONTINUING_PUNCTUATORS.indexOf(token.text) >= 0;
+}
+
+/**
+ * Whether two tokens need a space between them, to not run together into something else (eg. `a in b`, `a + +b` or `a / /b/`).
+ */
+function needsSpace(prev: JsToken, next: JsToken): boolean {
+    const last = prev.text[prev.text.length - 1];
+    const first = next.text[0];
+
+    return (WORD_CHAR_REGEX.test(last) && WORD_CHAR_REGEX.test(first))
+        || (prev.type === "word" && /^[\d_]+$/.test(prev.text) && first === ".")
+        || ((last === "+" || last === "-" || last === "/") && first === last)
+        || (last === "/" && first === "*")
+        // `<!--` and `-->` start comments in classic scripts
+        || (last === "<" && first === "!")
+        || (last === "-" && first === ">");
+}
@@ -1,8 +1,65 @@
 import * as handlebars from "handlebars";
+import { MapLike } from "./map-like";
+import { BuildCache } from "./build-cache";
 
 type Handlebars = typeof handlebars;
 type TemplateFn = (outputFileName: string, context: any, options?: Handlebars.RuntimeOptions) => void;
 
+/**
+ * Gets the contents of a stylesheet or script, given the URL exactly as it was written in the `href` or `src`
+ * and the path of the page that references it.
+ * Returns `null` (or `undefined`) if this resolver does not handle the URL.
+ */
+export type AssetResolver = (url: string, pagePath: string) => string | null | undefined | Promise<string | null | undefined>;
+
+/**
+ * Minifies the contents of a stylesheet or script being bundled into a page, given its contents and its resolved path.
+ */
+export type InlineMinifier = (contents: string, filePath: string) => string | Promise<string>;
+
+/**
+ * How the partials are told apart from the templates, and the names they are registered under (see `partialNaming`).
+ */
+export type PartialNaming = "prefix" | "directory" | "extension" | ((relativePath: string) => string | null | undefined);
+
+/**
+ * A set of pages rendered from a single template, either once for each item, or once for each page of items.
+ */
+export interface Collection {
+    /** The template that renders the pages, by its path relative to the glob base without the extension, eg. `"blog/post"` */
+    template: string;
+
+    /**
+     * The items, either as an array, or as the name of an array in the template's data (eg. `"posts"` for `data/posts.yml`).
+     */
+    items?: any[] | string;
+
+    /**
+     * A glob matched against the path (relative to the glob base) of the files passed through the stream, eg. `"blog/posts/*.md"`.
+     * Each matching file becomes an item made from its front-matter, along with its `content`, `name` (without the extension) and `relativePath`.
+     * These files are not output themselves.
+     */
+    files?: string;
+
+    /**
+     * A handlebars pattern for the output path of each page, rendered with the context of the page,
+     * eg. `"blog/{{slug}}.html"` for one page per item, or `"blog/page/{{pagination.page}}.html"` when paginating.
+     */
+    path: string;
+
+    /** The output path of the first page when paginating (eg. `"blog/index.html"`), instead of using the `path` pattern */
+    firstPagePath?: string;
+
+    /**
+     * Paginate the items, rendering the template once for each page of up to this many items (available as `items`).
+     * Otherwise the template is rendered once for each item, with the item's properties merged into the context (and available as `item`).
+     *
+     * Either way, `pagination` holds the `page` number (starting from 1), the `total` number of pages,
+     * and the URLs of the `prev` and `next` pages (or `null`).
+     */
+    pageSize?: number;
+}
+
 export interface Options {
     /**
      * Can be used to disable templating (pass `false`),
@@ -15,32 +72,222 @@ export interface Options {
      * Also allows outputting multiple files from a single template file,
      * by calling the template function multiple times.
      * 
-     * The default is to simply render the handlebars template with an empty context `{}`
+     * The default is to simply render the handlebars template with its own data (see below)
      * with the output file name left the same as the input, albeit changing the extension to `".html"`.
+     *
+     * Each template's data is built up from the JSON and YAML files inside of a top-level `data/` directory
+     * (eg. `data/site.yml` is available as `{{site.title}}`), then the data file next to the template (eg. `page.json` for `page.hbs`),
+     * and then the YAML (or `---json`) front-matter of the template itself.
+     * Any other JSON and YAML files are passed along untouched.
+     * The context passed to the template function is merged on top of that.
      */
     renderTemplate?: (template: TemplateFn, templatePath: string, done?: (error?: Error) => void) => void;
 
+    /**
+     * Templates that render a whole set of pages (eg. a page per blog post, or the pages of a blog's index),
+     * instead of the single page rendered by default.
+     */
+    collections?: Collection[];
+
+    /**
+     * How partials are found, and named by their path relative to the glob base (eg. `{{> components/button}}`):
+     * - `"prefix"` (the default) - files starting with an underscore, eg. `components/_button.hbs`
+     * - `"directory"` - files inside of a top-level `partials/` directory, eg. `partials/components/button.hbs`
+     * - `"extension"` - files with a `.partial` extension before their own, eg. `components/button.partial.hbs`
+     * - a function given the relative path (using `/` as the separator) that returns the name, or `null` for files that are not partials
+     *
+     * Two partials with the same name are an error.
+     */
+    partialNaming?: PartialNaming;
+
+    /**
+     * Handlebars helpers to register for every template, either as a map of helper names to functions,
+     * or as the path to a directory of helper modules.
+     * A module that exports a single function (or has a default export) is registered as a helper named after its file,
+     * otherwise each function it exports is registered under its own name, and the functions in its `decorators` export as decorators.
+     *
+     * Helper modules can also be passed through the stream, inside of a top-level `helpers/` directory.
+     * These are always available:
+     * - `{{asset-url "/style.css"}}` adds a hash of the file's contents to its URL, to bust caches when it changes
+     * - `{{inline-file "/icon.svg"}}` outputs the contents of a file as they are
+     * - `{{css-class "button"}}` outputs the minified name of a css class (or the original name, when not minifying)
+     */
+    helpers?: string | MapLike<handlebars.HelperDelegate>;
+
     baseUrl?: string;
+
+    /**
+     * One or more functions used to get the contents of the stylesheets and scripts referenced by the pages,
+     * eg. to map aliases to `node_modules`, or to serve CDN URLs from a local mirror.
+     * They are tried in order, and the first one to return something other than `null` wins.
+     *
+     * If none of them resolve the URL, the default is to skip absolute URLs,
+     * and to read everything else from the stream or from disk, relative to the `baseUrl`.
+     */
+    resolveAsset?: AssetResolver | AssetResolver[];
+
+    /**
+     * The most files to read from disk at the same time (eg. to stay clear of EMFILE errors on large sites).
+     * Each file is only read once per build, no matter how many pages use it (the resolvers from `resolveAsset` are still called for each page).
+     */
+    maxConcurrentReads?: number;
+
     classesWhitelist?: string[];
 
+    /**
+     * CSS variables (custom properties) that should never be renamed by `minifyCssVariables`,
+     * for example design tokens that are set by third-party code.
+     * Names may be given with or without the leading `"--"`, and no other variable is renamed to one of them.
+     */
+    variablesWhitelist?: string[];
+
+    /**
+     * Bundle the stylesheets into the page. Individual <link> tags can opt out with `data-bundle="skip"`,
+     * or opt in with `data-bundle="inline"` when this is turned off.
+     */
     bundleCss?: boolean;
+
+    /**
+     * Combine the bundled stylesheets into as few <style> tags as possible.
+     * Tags with a `data-bundle-group="<name>"` are only combined with the others in the same group.
+     */
     combineCss?: boolean;
 
+    /**
+     * Minify the stylesheets bundled into the pages: remove the comments (except the ones starting with `/*!`) and the whitespace,
+     * shorten the colors and numbers, and merge the rules that repeat the same selectors or declarations.
+     * A function can be given to minify them some other way instead (eg. with a third-party minifier).
+     * Each stylesheet is only minified once for the whole build, however many pages it is bundled into.
+     */
+    minifyInlineCss?: boolean | InlineMinifier;
+
+    /**
+     * When bundling css, replace the relative `url()` references to files (eg. images and fonts)
+     * smaller than this many bytes with `data:` URIs.
+     * The remaining relative `url()` references are always rewritten to be relative to the output page.
+     */
+    inlineCssUrls?: number;
+
+    /**
+     * Embed the images referenced by <img>, <source> and icon <link> tags that are smaller than this many bytes into the page.
+     * SVG images in <img> tags are replaced with the <svg> element itself (keeping the `class`, `id`, `style` and `alt` of the <img>),
+     * everything else becomes a `data:` URI.
+     */
+    inlineAssets?: number;
+
     minifyCssClasses?: boolean;
     minifyCssVariables?: boolean;
 
+    /**
+     * Build a single mapping for the minified css classes and variables from every page, stylesheet and script in the build,
+     * instead of a separate mapping for each page.
+     * This keeps the names consistent across pages, so that a stylesheet or script shared by multiple pages is correct for all of them.
+     */
+    minifyGlobally?: boolean;
+
+    /**
+     * The path (relative to the output directory) of a JSON manifest to emit into the stream,
+     * mapping every original css class name to its minified name.
+     * CSS variables are included as well, with their leading `"--"` kept on both sides, eg. `"--color-text": "--a"`.
+     *
+     * The manifest describes the mapping for the whole build, so setting this implies `minifyGlobally`.
+     */
+    minifyManifest?: string;
+
+    /**
+     * A manifest from a previous build (either the path to the JSON file, or its already parsed contents)
+     * used to seed the minified names, so that the names stay stable between releases.
+     * Every entry in the seed is carried over into the emitted manifest, even if it is no longer used.
+     *
+     * The seed is a mapping for the whole build, so setting this implies `minifyGlobally`.
+     */
+    minifyManifestSeed?: string | MapLike<string>;
+
+    /**
+     * Minify the html of the pages once everything else is done with them: remove the comments (except conditional comments and `<!-- keep -->`),
+     * collapse the whitespace (keeping the contents of <pre>, <textarea>, <script> and <style>, and the spaces around inline elements),
+     * remove the quotes that aren't needed and the values of boolean attributes, and sort the class lists.
+     */
+    minifyHtml?: boolean;
+
+    /**
+     * Bundle the scripts into the page. Individual <script> tags can opt out with `data-bundle="skip"`,
+     * or opt in with `data-bundle="inline"` when this is turned off.
+     */
     bundleJs?: boolean;
+
+    /**
+     * Combine the bundled scripts into as few <script> tags as possible.
+     * Tags with a `data-bundle-group="<name>"` are only combined with the others in the same group.
+     */
     combineJs?: boolean;
+
+    /**
+     * Minify the scripts bundled into the pages by removing the comments (except the ones starting with `/*!`) and the whitespace,
+     * without renaming anything.
+     * A function can be given to minify them some other way instead (eg. with a third-party minifier).
+     * Each script is only minified once for the whole build, however many pages it is bundled into.
+     */
+    minifyInlineJs?: boolean | InlineMinifier;
+
+    /**
+     * Add an `integrity` hash (and `crossorigin="anonymous"`) to the stylesheet <link> and <script> tags left pointing at files,
+     * for every file whose contents can be read from the stream, from disk, or through `resolveAsset`.
+     */
+    subresourceIntegrity?: boolean;
+
+    /**
+     * Compute the SHA-256 hashes of every inline <script> and <style> on each page (along with the other sources they need),
+     * so that a Content-Security-Policy can be used without `'unsafe-inline'`.
+     * Pass `"meta"` to add them to the page as a `Content-Security-Policy` <meta> tag,
+     * or `"json"` to emit them next to the page as a `<page>.csp.json` file mapping each directive to its sources,
+     * eg. for the server to send as headers.
+     */
+    cspHashes?: false | "meta" | "json";
+
+    /**
+     * Keep building the rest of the pages after an error, and report every error together once the build is done,
+     * as a single error with each of them in its `errors`.
+     * Otherwise the first error is emitted right away and nothing more is output after it (the stream still ends).
+     *
+     * Either way, each error says which file it came from (`fileName`), and where possible the `lineNumber` and `column`
+     * of the bad tag or syntax, and the `assetPath` of a stylesheet or script that could not be loaded.
+     */
+    keepGoing?: boolean;
+
+    /**
+     * An object to remember things in from one build to the next, for rebuilding quickly with `gulp.watch`.
+     * Pass the same object (eg. `const cache = {};` outside of the task) to every build; the plugin fills it in.
+     *
+     * The parsed templates and the files read from disk (until their modification time changes) are reused,
+     * and each page is only rendered again once something it was rendered from changes: its template and data,
+     * the partials and layouts it uses, the stylesheets, scripts and other files it reads, or the helpers.
+     * Every page is still bundled (and minified) and output each time.
+     */
+    cache?: BuildCache;
 }
 
 export const PLUGIN_NAME = "gulp-bundle-html";
 export const PLUGIN_DEFAULTS: Options = {
     handlebars: true,
+    partialNaming: "prefix",
+    collections: [],
     classesWhitelist: [],
+    variablesWhitelist: [],
     bundleCss: false,
     combineCss: false,
+    minifyInlineCss: false,
+    inlineCssUrls: 0,
+    inlineAssets: 0,
     minifyCssClasses: false,
     minifyCssVariables: false,
+    minifyGlobally: false,
+    minifyHtml: false,
     bundleJs: false,
     combineJs: false,
+    minifyInlineJs: false,
+    subresourceIntegrity: false,
+    cspHashes: false,
+    keepGoing: false,
+    maxConcurrentReads: 32,
 };
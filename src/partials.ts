@@ -0,0 +1,28 @@
+import * as path from "path";
+import { PartialNaming } from "./options";
+
+const PARTIALS_DIR = "partials";
+const PARTIAL_EXT = ".partial";
+
+/**
+ * Gets the name to register a partial under from its path relative to the glob base (using `/` as the separator),
+ * or `null` if the file is not a partial:
+ * - `"prefix"` - files starting with an underscore, eg. `components/_button.hbs` is `components/button`
+ * - `"directory"` - files inside of a top-level `partials/` directory, eg. `partials/components/button.hbs` is `components/button`
+ * - `"extension"` - files with a `.partial` extension before their own, eg. `components/button.partial.hbs` is `components/button`
+ * - a function returning the name, or `null` for files that are not partials
+ */
+export function getPartialName(relativePath: string, naming: PartialNaming): string | null {
+    const parsedPath = path.posix.parse(relativePath);
+    const dir = parsedPath.dir ? `${parsedPath.dir}/` : "";
+
+    if (typeof naming === "function") {
+        return naming(relativePath) || null;
+    } else if (naming === "directory") {
+        return dir.startsWith(`${PARTIALS_DIR}/`) ? `${dir.slice(PARTIALS_DIR.length + 1)}${parsedPath.name}` : null;
+    } else if (naming === "extension") {
+        return parsedPath.name.endsWith(PARTIAL_EXT) ? `${dir}${parsedPath.name.slice(0, -PARTIAL_EXT.length)}` : null;
+    } else {
+        return parsedPath.name.startsWith("_") ? `${dir}${parsedPath.name.slice(1)}` : null;
+    }
+}
@@ -0,0 +1,73 @@
+import * as fs from "fs";
+import { MapLike } from "./map-like";
+import { CachedFile } from "./build-cache";
+import { AssetCache, getCachedResult } from "./asset-cache";
+
+export type ReadFile = (filePath: string) => Promise<string>;
+export type ReadBinaryFile = (filePath: string) => Promise<Buffer>;
+export type ReadBinaryFileSync = (filePath: string) => Buffer;
+
+/**
+ * Creates a function to read files, looking in `virtualFiles` (files that were passed through the stream, keyed by their resolved path)
+ * first and only falling back to reading from disk if the file is missing.
+ * Files read from disk are kept in the `fileCache` (when given), and only read again once their modification time changes.
+ * With an `assetCache`, each file is only read from disk once for the whole build, with a limit on how many are read at the same time.
+ */
+export function createReadFile(virtualFiles: MapLike<Buffer>, fileCache?: MapLike<CachedFile>, assetCache?: AssetCache): ReadFile {
+    const readBinaryFile = createReadBinaryFile(virtualFiles, fileCache, assetCache);
+    return async (filePath: string) => (await readBinaryFile(filePath)).toString("utf8");
+}
+
+/**
+ * Same as `createReadFile`, but for binary files like images and fonts.
+ */
+export function createReadBinaryFile(virtualFiles: MapLike<Buffer>, fileCache?: MapLike<CachedFile>, assetCache?: AssetCache): ReadBinaryFile {
+    return async (filePath: string) => {
+        if (filePath in virtualFiles) {
+            return virtualFiles[filePath];
+        } else if (!assetCache) {
+            return readFromDisk(filePath, fileCache);
+        } else {
+            return getCachedResult(assetCache, `read\0${filePath}`, () => assetCache.limitReads(() => readFromDisk(filePath, fileCache)));
+        }
+    };
+}
+
+async function readFromDisk(filePath: string, fileCache?: MapLike<CachedFile>): Promise<Buffer> {
+    if (!fileCache) {
+        return fs.promises.readFile(filePath);
+    }
+
+    const { mtimeMs } = await fs.promises.stat(filePath);
+    const cached = fileCache[filePath];
+    if (cached && cached.mtime === mtimeMs) {
+        return cached.contents;
+    }
+
+    const contents = await fs.promises.readFile(filePath);
+    fileCache[filePath] = { mtime: mtimeMs, contents };
+    return contents;
+}
+
+/**
+ * Same as `createReadBinaryFile`, but synchronous, for the places that can't wait (eg. handlebars helpers).
+ */
+export function createReadBinaryFileSync(virtualFiles: MapLike<Buffer>, fileCache?: MapLike<CachedFile>): ReadBinaryFileSync {
+    return (filePath: string) => {
+        if (filePath in virtualFiles) {
+            return virtualFiles[filePath];
+        } else if (!fileCache) {
+            return fs.readFileSync(filePath);
+        }
+
+        const { mtimeMs } = fs.statSync(filePath);
+        const cached = fileCache[filePath];
+        if (cached && cached.mtime === mtimeMs) {
+            return cached.contents;
+        }
+
+        const contents = fs.readFileSync(filePath);
+        fileCache[filePath] = { mtime: mtimeMs, contents };
+        return contents;
+    };
+}
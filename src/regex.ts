@@ -1,10 +1,17 @@
-export const SCRIPT_TAG_REGEX   = /<script([^>]*)\/>|<script([^>]*)>.*?<\/script[^>]*>/ig;
-export const LINK_TAG_REGEX     = /<link([^>]*)\/?>/ig;
-export const XML_ATTRIB_REGEX   = /(?<!<)\b([_a-z0-9-]+)\s*(?:=\s*(?:'([^']*)'|"([^"]*)"))?/ig;
-
 export const WS_REGEX           = /\s+/g;
 export const ABSOLUTE_URL_REGEX = /^(?:[a-z]+:)?\/\//i;
 
-export const HTML_CLASS_REGEX   = /\b(class)\s*(?:=\s*(?:'([^']*)'|"([^"]*)"))/ig;
 export const CSS_CLASS_REGEX    = /\.(-?[_a-z][_a-z0-9-]*)\b/ig;
 export const JS_CLASS_REGEX     = /cssClassName\(([^\)]+)\)/ig;
+export const CSS_CLASS_PLACEHOLDER_REGEX = /\u0000css-class:([^\u0000]+)\u0000/g;
+
+export const CSS_VARIABLE_REGEX = /(?<![_a-z0-9-])--([_a-z0-9-]+)/ig;
+export const JS_VARIABLE_REGEX  = /\b((?:setProperty|getPropertyValue|removeProperty)\(\s*(['"]))--([_a-z0-9-]+)(?=\2)/ig;
+
+export const CSS_IMPORT_REGEX   = /@import\s+(?:url\(\s*(?:'([^']*)'|"([^"]*)"|([^'")\s]*))\s*\)|'([^']*)'|"([^"]*)")\s*([^;]*);/ig;
+export const CSS_CHARSET_REGEX  = /@charset\s+(?:'[^']*'|"[^"]*")\s*;/ig;
+export const CSS_URL_REGEX      = /\burl\(\s*(?:'([^']*)'|"([^"]*)"|([^'")\s]*))\s*\)/ig;
+export const URL_SCHEME_REGEX   = /^[a-z][a-z0-9+.-]*:/i;
+export const URL_SUFFIX_REGEX   = /[?#].*$/;
+
+export const JS_MIME_TYPE_REGEX = /^(?:text|application)\/(?:x-)?(?:java|ecma)script$/i;
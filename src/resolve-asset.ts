@@ -0,0 +1,68 @@
+import * as path from "path";
+import { ABSOLUTE_URL_REGEX, URL_SUFFIX_REGEX } from "./regex";
+
+/**
+ * Gets the contents of an asset given its URL, as text by default, or as whatever the resolvers give back (eg. the raw bytes of local files).
+ */
+export type ResolveAsset<T = string> = (url: string) => Promise<T | null>;
+
+/**
+ * An `AssetResolver` that can give back other kinds of contents than text.
+ */
+type Resolver<T> = (url: string, pagePath: string) => T | null | undefined | Promise<T | null | undefined>;
+
+/**
+ * Gets the path that the contents of an asset are stored under.
+ * Absolute URLs are kept as they are, everything else is resolved relative to the `baseUrl` (without any query or fragment).
+ */
+export function resolveAssetPath(url: string, baseUrl: string): string {
+    if (ABSOLUTE_URL_REGEX.test(url)) {
+        return url;
+    } else {
+        url = url.replace(URL_SUFFIX_REGEX, "");
+        return path.resolve(baseUrl, url.startsWith("/") ? url.slice(1) : url);
+    }
+}
+
+/**
+ * The resolver used when none of the resolvers passed in the options could resolve an asset.
+ * Absolute URLs are skipped, and everything else is read from the stream or from disk.
+ */
+export function createDefaultResolver<T>(readFile: (filePath: string) => Promise<T>, baseUrl: string): Resolver<T> {
+    return (url: string) => {
+        if (ABSOLUTE_URL_REGEX.test(url)) {
+            return null;
+        } else {
+            return readFile(resolveAssetPath(url, baseUrl));
+        }
+    };
+}
+
+/**
+ * Creates a function that tries each of the resolvers in order for the page,
+ * until one of them returns the contents of the asset.
+ */
+export function createResolveAsset<T>(resolvers: Resolver<T>[], pagePath: string): ResolveAsset<T> {
+    return async (url: string) => {
+        for (const resolver of resolvers) {
+            const contents = await resolver(url, pagePath);
+            if (contents !== null && contents !== undefined) {
+                return contents;
+            }
+        }
+
+        return null;
+    };
+}
+
+/**
+ * Points a URL at a renamed file in the same directory.
+ * Absolute URLs are pointed at the root of the output instead, since the renamed file is output locally.
+ */
+export function relinkUrl(url: string, fileName: string): string {
+    if (ABSOLUTE_URL_REGEX.test(url)) {
+        return `/${fileName}`;
+    } else {
+        return url.slice(0, url.lastIndexOf("/") + 1) + fileName;
+    }
+}
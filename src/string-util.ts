@@ -1,3 +1,5 @@
+import { MapLike } from "./map-like";
+
 export function stringSearch(
     value: string,
     regex: RegExp,
@@ -19,15 +21,6 @@ export function stringSearch(
     }
 }
 
-export function stringReplace(
-    value: string,
-    regex: RegExp,
-    replacer: (...substrings: string[]) => string,
-): string {
-    return value.replace(regex, replacer);
-}
-
-/// TODO: Currently unused; remove?
 export async function stringReplaceAsync(
     value: string,
     regex: RegExp,
@@ -79,8 +72,62 @@ export async function stringReplaceAsync(
     }
 }
 
+/**
+ * Gets the match of a sticky (`y`) regex at exactly the given index, or `""` if there isn't one.
+ */
+export function matchAt(regex: RegExp, value: string, index: number): string {
+    regex.lastIndex = index;
+    const match = regex.exec(value);
+    return match ? match[0] : "";
+}
+
 export function createXmlAttrib([key, value]: [string, string]) {
-    return value ? ` ${key}="${value}"` : ` ${key}`;
+    return value ? ` ${key}="${escapeXmlAttrib(value)}"` : ` ${key}`;
+}
+
+/**
+ * Escapes an attribute value (as it was written in the source, eg. from a single-quoted attribute) for putting in double quotes.
+ * Any character references already in the value are kept as they are, rather than escaped again.
+ */
+export function escapeXmlAttrib(value: string): string {
+    return value
+        .replace(/&(?!(?:[a-z][a-z0-9]*|#\d+|#x[0-9a-f]+);)/gi, "&amp;")
+        .replace(/"/g, "&quot;");
+}
+
+/**
+ * Assigns each name a new short name, giving the shortest names to the names that are used most.
+ * Names that already have an entry in `seed` keep it, and no other name is given one of the seeded short names,
+ * or one of the `reserved` names (eg. the names that are kept as they are).
+ */
+export function createReplacementNames(
+    usageCounts: MapLike<number>,
+    onUsedOnce?: (name: string) => void,
+    seed?: MapLike<string>,
+    reserved?: string[],
+): MapLike<string> {
+    const orderedUsageCount: [string, number][] = [...Object.entries(usageCounts)].sort((a, b) => b[1] - a[1]);
+    const replacementNames: MapLike<string> = {};
+    const reservedNames = new Set([...(seed ? Object.values(seed) : []), ...(reserved || [])]);
+    const nameGenerator = createStringGenerator();
+    for (const [key, value] of orderedUsageCount) {
+        if (seed && key in seed) {
+            replacementNames[key] = seed[key];
+        } else {
+            let name: string;
+            do {
+                name = nameGenerator.next().value;
+            } while (reservedNames.has(name));
+
+            replacementNames[key] = name;
+        }
+
+        if (value <= 1 && onUsedOnce) {
+            onUsedOnce(key);
+        }
+    }
+
+    return replacementNames;
 }
 
 export function* createStringGenerator() {
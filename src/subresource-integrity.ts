@@ -0,0 +1,43 @@
+import * as crypto from "crypto";
+import { ResolveAsset } from "./resolve-asset";
+import { findStylesheets } from "./bundle-css";
+import { findScripts } from "./bundle-js";
+import { HtmlStartTag, HtmlEdit, getAttribute, getAttributeValue, applyEdits } from "./html-tokenizer";
+
+/**
+ * Adds an `integrity` hash of the contents to each stylesheet <link> and <script> tag that still points at a file,
+ * along with `crossorigin="anonymous"`, since browsers only check the hash of files from other origins in CORS mode.
+ * Tags that already have an `integrity`, and files that can't be resolved, are left alone.
+ * Contents given as a `Buffer` are hashed as they are, and text as UTF-8.
+ */
+export async function addSubresourceIntegrity(html: string, resolveAsset: ResolveAsset<string | Buffer>): Promise<string> {
+    const tags: [HtmlStartTag, string][] = [
+        ...findStylesheets(html).map((tag: HtmlStartTag): [HtmlStartTag, string] => [tag, "href"]),
+        ...findScripts(html).map((tag: HtmlStartTag): [HtmlStartTag, string] => [tag, "src"]),
+    ];
+
+    const edits = await Promise.all(tags.map(async ([tag, urlAttrib]: [HtmlStartTag, string]): Promise<HtmlEdit | null> => {
+        const value = (getAttributeValue(tag, urlAttrib) || "").trim();
+        if (!value || getAttribute(tag, "integrity")) {
+            return null;
+        }
+
+        const contents = await resolveAsset(value);
+        if (contents === null) {
+            return null;
+        }
+
+        const bytes = typeof contents === "string" ? Buffer.from(contents, "utf8") : contents;
+        const hash = crypto.createHash("sha384").update(bytes).digest("base64");
+        const attributes = getAttribute(tag, "crossorigin")
+            ? ` integrity="sha384-${hash}"`
+            : ` integrity="sha384-${hash}" crossorigin="anonymous"`;
+
+        // Added after the last attribute, to keep any self-closing slash at the end
+        const lastAttribute = tag.attributes[tag.attributes.length - 1];
+        const index = lastAttribute ? lastAttribute.end : tag.start + 1 + tag.name.length;
+        return { start: index, end: index, text: attributes };
+    }));
+
+    return applyEdits(html, edits.filter((edit: HtmlEdit | null): edit is HtmlEdit => edit !== null));
+}
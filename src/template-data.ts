@@ -0,0 +1,57 @@
+import * as path from "path";
+import * as yaml from "js-yaml";
+import { MapLike } from "./map-like";
+
+const DATA_DIR = "data";
+const DATA_EXTS = [".json", ".yaml", ".yml"];
+
+/**
+ * Whether a file passed through the stream holds data for the templates (JSON or YAML).
+ */
+export function isDataFile(filePath: string): boolean {
+    return DATA_EXTS.indexOf(path.extname(filePath).toLowerCase()) >= 0;
+}
+
+export function parseDataFile(filePath: string, contents: string): any {
+    if (path.extname(filePath).toLowerCase() === ".json") {
+        return JSON.parse(contents);
+    } else {
+        return yaml.safeLoad(contents, { filename: filePath });
+    }
+}
+
+/**
+ * Gets the keys that a file inside of the top-level `data/` directory is stored under in the global data,
+ * from its path relative to the glob base (eg. `data/nav/main.yml` is `["nav", "main"]`),
+ * or `null` for files outside of the `data/` directory.
+ */
+export function getGlobalDataKeys(relativePath: string): string[] | null {
+    const parts = relativePath.split(/[\\/]/);
+    if (parts.length < 2 || parts[0] !== DATA_DIR) {
+        return null;
+    }
+
+    const fileName = parts[parts.length - 1];
+    return [...parts.slice(1, -1), fileName.slice(0, fileName.length - path.extname(fileName).length)];
+}
+
+/**
+ * Stores the data of a file under its keys in the global data, creating the objects for its directories along the way.
+ */
+export function addGlobalData(globalData: MapLike<any>, keys: string[], data: any): void {
+    let parent = globalData;
+    for (const key of keys.slice(0, -1)) {
+        if (!parent[key] || typeof parent[key] !== "object") {
+            parent[key] = {};
+        }
+        parent = parent[key];
+    }
+
+    const lastKey = keys[keys.length - 1];
+    if (parent[lastKey] && typeof parent[lastKey] === "object" && data && typeof data === "object" && !Array.isArray(data)) {
+        // eg. both `data/nav.json` and the files inside of `data/nav/`
+        Object.assign(parent[lastKey], data);
+    } else {
+        parent[lastKey] = data;
+    }
+}
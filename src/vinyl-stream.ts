@@ -0,0 +1,23 @@
+import { PassThrough } from "stream";
+
+/**
+ * Reads the whole contents of a streaming Vinyl file into a buffer.
+ */
+export function readStreamContents(contents: NodeJS.ReadableStream): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+
+        contents.on("data", (chunk: Buffer | string) => chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk));
+        contents.on("error", reject);
+        contents.on("end", () => resolve(Buffer.concat(chunks)));
+    });
+}
+
+/**
+ * Creates the stream for the contents of a Vinyl file that should be output in streaming mode.
+ */
+export function createStreamContents(buffer: Buffer): NodeJS.ReadableStream {
+    const contents = new PassThrough();
+    contents.end(buffer);
+    return contents;
+}
@@ -0,0 +1 @@
+cssClassName("js-class-3");
\ No newline at end of file
@@ -0,0 +1 @@
+document.body.style.setProperty("--color-text", "#111");
\ No newline at end of file
@@ -1,6 +1,12 @@
+import * as fs from "fs";
 import * as path from "path";
+import * as crypto from "crypto";
+import { PassThrough } from "stream";
 import { assert } from "chai";
 import * as File from "vinyl";
+import { MapLike } from "../src/map-like";
+import { BuildError } from "../src/errors";
+import { BuildCache } from "../src/build-cache";
 import gulpBundleHtml = require("../src/index");
 
 const HTML_CSS_IN = `<html>
@@ -23,6 +29,12 @@ const HTML_ALL_IN = `<html>
     <script src="/script-2.js"></script>
 </html>`;
 
+const HTML_VARS_IN = `<html>
+    <link rel="stylesheet" href="/style-vars.css"/>
+    <div class="card" style="border-color: var(--color-surface)"/>
+    <script src="/script-vars.js"></script>
+</html>`;
+
 describe("gulp-bundle-html", function () {
     describe("in buffer mode", function () {
         it("should bundle css", function (done) {
@@ -48,7 +60,7 @@ describe("gulp-bundle-html", function () {
                 try {
                     // make sure it came out the same way it went in
                     assert(file.isBuffer());
-    
+
                     // check the contents
                     assert.equal(file.contents.toString("utf8"), `<html>
     <style>.css-class-1 {}</style>
@@ -87,12 +99,11 @@ describe("gulp-bundle-html", function () {
                 try {
                     // make sure it came out the same way it went in
                     assert(file.isBuffer());
-    
+
                     // check the contents
                     assert.equal(file.contents.toString("utf8"), `<html>
-    <style>.css-class-1 {}.css-class-2 {}</style>
-    
-    <div class="css-class-1 css-class-2"/>
+    <style>.css-class-1 {}\n.css-class-2 {}</style>
+    \n    <div class="css-class-1 css-class-2"/>
 </html>`);
 
                     done();
@@ -125,7 +136,7 @@ describe("gulp-bundle-html", function () {
                 try {
                     // make sure it came out the same way it went in
                     assert(file.isBuffer());
-    
+
                     // check the contents
                     assert.equal(file.contents.toString("utf8"), `<html>
     <div class="js-class-1 js-class-2"/>
@@ -164,13 +175,12 @@ describe("gulp-bundle-html", function () {
                 try {
                     // make sure it came out the same way it went in
                     assert(file.isBuffer());
-    
+
                     // check the contents
                     assert.equal(file.contents.toString("utf8"), `<html>
     <div class="js-class-1 js-class-2"/>
-    <script>cssClassName("js-class-1");cssClassName("js-class-2");</script>
-    
-</html>`);
+    <script>cssClassName("js-class-1");\n;cssClassName("js-class-2");</script>
+    \n</html>`);
 
                     done();
                 } catch (error) {
@@ -206,14 +216,281 @@ describe("gulp-bundle-html", function () {
                 try {
                     // make sure it came out the same way it went in
                     assert(file.isBuffer());
-    
+
+                    // check the contents
+                    assert.equal(file.contents.toString("utf8"), `<html>
+    <style>.a {}\n.b {}</style>
+    \n    <div class="a b c d"/>
+    <script>"c";\n;"d";</script>
+    \n</html>`);
+
+                    done();
+                } catch (error) {
+                    done(error);
+                }
+            });
+        });
+
+        it("should minify css variables", function (done) {
+            // create the fake file
+            const fakeFile = new File({
+                path: path.resolve(__dirname, "index.html"),
+                contents: Buffer.from(HTML_VARS_IN),
+            });
+
+            // Create an instance of the plugin
+            const plugin = gulpBundleHtml({
+                handlebars: false,
+                baseUrl: __dirname,
+                bundleCss: true,
+                minifyCssVariables: true,
+                variablesWhitelist: ["--vendor-accent"],
+                bundleJs: true,
+            });
+
+            // write the fake file to it
+            plugin.write(fakeFile);
+            plugin.end();
+
+            // wait for the file to come back out
+            plugin.once("data", function (file: any) {
+                try {
+                    // make sure it came out the same way it went in
+                    assert(file.isBuffer());
+
+                    // check the contents
+                    assert.equal(file.contents.toString("utf8"), `<html>
+    <style>:root { --a: #fff; --b: #000; --vendor-accent: red; }
+.card { background: var(--a); color: var(--b, var(--vendor-accent)); }</style>
+    <div class="card" style="border-color: var(--a)"/>
+    <script>document.body.style.setProperty("--b", "#111");</script>
+</html>`);
+
+                    done();
+                } catch (error) {
+                    done(error);
+                }
+            });
+        });
+
+        it("should minify the css variables of style tags, but not the ones in strings and comments", function (done) {
+            // create the fake file
+            const fakeFile = new File({
+                path: path.resolve(__dirname, "index.html"),
+                contents: Buffer.from(`<html>
+    <style>/* --color-unused */
+:root { --color-text: #000; --color-bg: #fff; --a: 1px; }
+.quote::before { content: "--color-text"; color: var(--color-text); background: var(--color-bg); margin: var(--a); }</style>
+    <div style="color: var(--color-text)"/>
+</html>`),
+            });
+
+            // Create an instance of the plugin
+            const plugin = gulpBundleHtml({
+                handlebars: false,
+                baseUrl: __dirname,
+                minifyCssVariables: true,
+                variablesWhitelist: ["a"],
+            });
+
+            // write the fake file to it
+            plugin.write(fakeFile);
+            plugin.end();
+
+            // wait for the file to come back out
+            plugin.once("data", function (file: any) {
+                try {
+                    // check the contents, the new names skip the whitelisted "--a"
+                    assert.equal(file.contents.toString("utf8"), `<html>
+    <style>/* --color-unused */
+:root { --b: #000; --c: #fff; --a: 1px; }
+.quote::before { content: "--color-text"; color: var(--b); background: var(--c); margin: var(--a); }</style>
+    <div style="color: var(--b)"/>
+</html>`);
+
+                    done();
+                } catch (error) {
+                    done(error);
+                }
+            });
+        });
+
+        it("should minify css classes consistently across pages", function (done) {
+            // create the fake files
+            const fakeFile1 = new File({
+                path: path.resolve(__dirname, "page-1.html"),
+                contents: Buffer.from(HTML_CSS_IN),
+            });
+            const fakeFile2 = new File({
+                path: path.resolve(__dirname, "page-2.html"),
+                contents: Buffer.from(`<html>
+    <link rel="stylesheet" href="/style-2.css"/>
+    <div class="css-class-2"/>
+    <div class="css-class-2"/>
+</html>`),
+            });
+
+            // Create an instance of the plugin
+            const plugin = gulpBundleHtml({
+                handlebars: false,
+                baseUrl: __dirname,
+                bundleCss: true,
+                minifyCssClasses: true,
+                minifyGlobally: true,
+            });
+
+            // write the fake files to it
+            plugin.write(fakeFile1);
+            plugin.write(fakeFile2);
+            plugin.end();
+
+            // wait for the files to come back out
+            const files: MapLike<string> = {};
+            plugin.on("data", function (file: any) {
+                files[path.basename(file.path)] = file.contents.toString("utf8");
+            });
+            plugin.on("end", function () {
+                try {
+                    // check the contents
+                    assert.equal(files["page-1.html"], `<html>
+    <style>.b {}</style>
+    <style>.a {}</style>
+    <div class="b a"/>
+</html>`);
+                    assert.equal(files["page-2.html"], `<html>
+    <style>.a {}</style>
+    <div class="a"/>
+    <div class="a"/>
+</html>`);
+
+                    done();
+                } catch (error) {
+                    done(error);
+                }
+            });
+        });
+
+        it("should emit a manifest of the minified css classes", function (done) {
+            // create the fake file
+            const fakeFile = new File({
+                path: path.resolve(__dirname, "index.html"),
+                contents: Buffer.from(HTML_CSS_IN),
+            });
+
+            // Create an instance of the plugin
+            const plugin = gulpBundleHtml({
+                handlebars: false,
+                baseUrl: __dirname,
+                bundleCss: true,
+                combineCss: true,
+                minifyCssClasses: true,
+                minifyManifest: "classes.json",
+                minifyManifestSeed: { "css-class-1": "z", "removed-class": "y" },
+            });
+
+            // write the fake file to it
+            plugin.write(fakeFile);
+            plugin.end();
+
+            // wait for the files to come back out
+            const files: MapLike<string> = {};
+            plugin.on("data", function (file: any) {
+                files[path.basename(file.path)] = file.contents.toString("utf8");
+            });
+            plugin.on("end", function () {
+                try {
+                    // check the contents
+                    assert.equal(files["index.html"], `<html>
+    <style>.z {}\n.a {}</style>
+    \n    <div class="z a"/>
+</html>`);
+                    assert.deepEqual(JSON.parse(files["classes.json"]), {
+                        "css-class-1": "z",
+                        "css-class-2": "a",
+                        "removed-class": "y",
+                    });
+
+                    done();
+                } catch (error) {
+                    done(error);
+                }
+            });
+        });
+
+        it("should leave empty class attributes alone", function (done) {
+            // create the fake file
+            const fakeFile = new File({
+                path: path.resolve(__dirname, "index.html"),
+                contents: Buffer.from(`<html>
+    <link rel="stylesheet" href="/style-1.css"/>
+    <div class=""></div>
+    <div class="css-class-1 css-class-1"></div>
+</html>`),
+            });
+
+            // Create an instance of the plugin
+            const plugin = gulpBundleHtml({
+                handlebars: false,
+                baseUrl: __dirname,
+                bundleCss: true,
+                minifyCssClasses: true,
+                minifyManifest: "classes.json",
+            });
+
+            // write the fake file to it
+            plugin.write(fakeFile);
+            plugin.end();
+
+            // wait for the files to come back out
+            const files: MapLike<string> = {};
+            plugin.on("data", function (file: any) {
+                files[path.basename(file.path)] = file.contents.toString("utf8");
+            });
+            plugin.on("end", function () {
+                try {
+                    // check the contents
+                    assert.equal(files["index.html"], `<html>
+    <style>.a {}</style>
+    <div class=""></div>
+    <div class="a a"></div>
+</html>`);
+                    assert.deepEqual(JSON.parse(files["classes.json"]), { "css-class-1": "a" });
+
+                    done();
+                } catch (error) {
+                    done(error);
+                }
+            });
+        });
+
+        it("should use the manifest seed without a manifest", function (done) {
+            // create the fake file
+            const fakeFile = new File({
+                path: path.resolve(__dirname, "index.html"),
+                contents: Buffer.from(HTML_CSS_IN),
+            });
+
+            // Create an instance of the plugin
+            const plugin = gulpBundleHtml({
+                handlebars: false,
+                baseUrl: __dirname,
+                bundleCss: true,
+                minifyCssClasses: true,
+                minifyManifestSeed: { "css-class-1": "z" },
+            });
+
+            // write the fake file to it
+            plugin.write(fakeFile);
+            plugin.end();
+
+            // wait for the file to come back out
+            plugin.once("data", function (file: any) {
+                try {
                     // check the contents
                     assert.equal(file.contents.toString("utf8"), `<html>
-    <style>.a {}.b {}</style>
-    
-    <div class="a b c d"/>
-    <script>"c";"d";</script>
-    
+    <style>.z {}</style>
+    <style>.a {}</style>
+    <div class="z a"/>
 </html>`);
 
                     done();
@@ -222,5 +499,1550 @@ describe("gulp-bundle-html", function () {
                 }
             });
         });
+
+        it("should pass minified css and js along as new files without bundling", function (done) {
+            // create the fake file
+            const fakeFile = new File({
+                path: path.resolve(__dirname, "index.html"),
+                contents: Buffer.from(HTML_ALL_IN),
+            });
+
+            // Create an instance of the plugin
+            const plugin = gulpBundleHtml({
+                handlebars: false,
+                baseUrl: __dirname,
+                minifyCssClasses: true,
+            });
+
+            // write the fake file to it
+            plugin.write(fakeFile);
+            plugin.end();
+
+            // wait for the files to come back out
+            const files: MapLike<string> = {};
+            plugin.on("data", function (file: any) {
+                files[path.basename(file.path)] = file.contents.toString("utf8");
+            });
+            plugin.on("end", function () {
+                try {
+                    const html = files["index.html"];
+                    const [, style1] = /href="\/(style-1\.[0-9a-f]{8}\.css)"/.exec(html);
+                    const [, script2] = /src="\/(script-2\.[0-9a-f]{8}\.js)"/.exec(html);
+
+                    // check the contents
+                    assert.include(html, `<div class="a b c d"/>`);
+                    assert.equal(files[style1], ".a {}");
+                    assert.equal(files[script2], `"d";`);
+
+                    // make sure the original files were left alone
+                    assert.equal(fs.readFileSync(path.resolve(__dirname, "style-1.css"), "utf8"), ".css-class-1 {}");
+
+                    done();
+                } catch (error) {
+                    done(error);
+                }
+            });
+        });
+
+        it("should output the minified copies inside the output directory when the base url differs", function (done) {
+            // create the fake file, with its base somewhere other than the base url
+            const fakeFile = new File({
+                base: path.resolve(__dirname, "pages"),
+                path: path.resolve(__dirname, "pages", "index.html"),
+                contents: Buffer.from(HTML_ALL_IN),
+            });
+
+            // Create an instance of the plugin
+            const plugin = gulpBundleHtml({
+                handlebars: false,
+                baseUrl: __dirname,
+                minifyCssClasses: true,
+            });
+
+            // write the fake file to it
+            plugin.write(fakeFile);
+            plugin.end();
+
+            // wait for the files to come back out
+            const files: MapLike<any> = {};
+            plugin.on("data", function (file: any) {
+                files[path.basename(file.path)] = file;
+            });
+            plugin.on("end", function () {
+                try {
+                    const html = files["index.html"].contents.toString("utf8");
+                    const [, style1] = /href="\/(style-1\.[0-9a-f]{8}\.css)"/.exec(html);
+
+                    // check the copy is written where the page links to it
+                    assert.equal(files[style1].relative, style1);
+                    assert.equal(files[style1].base, path.resolve(__dirname, "pages"));
+
+                    done();
+                } catch (error) {
+                    done(error);
+                }
+            });
+        });
+
+        it("should bundle css and js passed through the stream", function (done) {
+            // create the fake files, the css and js files do not exist on disk
+            const fakeFile = new File({
+                path: path.resolve(__dirname, "index.html"),
+                contents: Buffer.from(`<html>
+    <link rel="stylesheet" href="/virtual.css"/>
+    <link rel="stylesheet" href="/style-1.css"/>
+    <script src="/virtual.js"></script>
+</html>`),
+            });
+            const fakeCssFile = new File({
+                path: path.resolve(__dirname, "virtual.css"),
+                contents: Buffer.from(".virtual-class {}"),
+            });
+            const fakeJsFile = new File({
+                path: path.resolve(__dirname, "virtual.js"),
+                contents: Buffer.from(`cssClassName("virtual-class");`),
+            });
+
+            // Create an instance of the plugin
+            const plugin = gulpBundleHtml({
+                handlebars: false,
+                baseUrl: __dirname,
+                bundleCss: true,
+                bundleJs: true,
+            });
+
+            // write the fake files to it
+            plugin.write(fakeFile);
+            plugin.write(fakeCssFile);
+            plugin.write(fakeJsFile);
+            plugin.end();
+
+            // wait for the files to come back out
+            const files: MapLike<string> = {};
+            plugin.on("data", function (file: any) {
+                files[path.basename(file.path)] = file.contents.toString("utf8");
+            });
+            plugin.on("end", function () {
+                try {
+                    // check the contents
+                    assert.equal(files["index.html"], `<html>
+    <style>.virtual-class {}</style>
+    <style>.css-class-1 {}</style>
+    <script>cssClassName("virtual-class");</script>
+</html>`);
+                    assert.equal(files["virtual.css"], ".virtual-class {}");
+
+                    done();
+                } catch (error) {
+                    done(error);
+                }
+            });
+        });
+
+        it("should resolve assets using the resolvers from the options", function (done) {
+            // create the fake file
+            const fakeFile = new File({
+                path: path.resolve(__dirname, "index.html"),
+                contents: Buffer.from(`<html>
+    <link rel="stylesheet" href="~lib/style-1.css"/>
+    <link rel="stylesheet" href="https://cdn.example.com/vendor.css"/>
+    <link rel="stylesheet" href="https://cdn.example.com/missing.css"/>
+    <script src="/script-1.js"></script>
+</html>`),
+            });
+
+            // Create an instance of the plugin
+            const resolvedPages: string[] = [];
+            const plugin = gulpBundleHtml({
+                handlebars: false,
+                baseUrl: __dirname,
+                bundleCss: true,
+                bundleJs: true,
+                resolveAsset: [
+                    (url: string, pagePath: string) => {
+                        resolvedPages.push(pagePath);
+                        return url.startsWith("~lib/") ? fs.promises.readFile(path.resolve(__dirname, url.slice(5)), "utf8") : null;
+                    },
+                    (url: string) => url === "https://cdn.example.com/vendor.css" ? ".vendor {}" : null,
+                ],
+            });
+
+            // write the fake file to it
+            plugin.write(fakeFile);
+            plugin.end();
+
+            // wait for the file to come back out
+            plugin.once("data", function (file: any) {
+                try {
+                    // check the contents
+                    assert.equal(file.contents.toString("utf8"), `<html>
+    <style>.css-class-1 {}</style>
+    <style>.vendor {}</style>
+    <link rel="stylesheet" href="https://cdn.example.com/missing.css"/>
+    <script>cssClassName("js-class-1");</script>
+</html>`);
+                    assert.include(resolvedPages, path.resolve(__dirname, "index.html"));
+
+                    done();
+                } catch (error) {
+                    done(error);
+                }
+            });
+        });
+
+        it("should follow css @import chains", function (done) {
+            // create the fake file
+            const fakeFile = new File({
+                path: path.resolve(__dirname, "index.html"),
+                contents: Buffer.from(`<html>
+    <link rel="stylesheet" href="/imports/main.css"/>
+    <div class="import-main import-base import-theme"/>
+</html>`),
+            });
+
+            // Create an instance of the plugin
+            const plugin = gulpBundleHtml({
+                handlebars: false,
+                baseUrl: __dirname,
+                bundleCss: true,
+                minifyCssClasses: true,
+            });
+
+            // write the fake file to it
+            plugin.write(fakeFile);
+            plugin.end();
+
+            // wait for the file to come back out
+            plugin.once("data", function (file: any) {
+                try {
+                    // check the contents
+                    assert.equal(file.contents.toString("utf8"), `<html>
+    <style>
+
+.b {}
+
+@media screen and (min-width: 40em) {
+@supports (display: grid) {
+@layer theme {
+.c {}
+
+}
+}
+}
+
+.a {}
+</style>
+    <div class="a b c"/>
+</html>`);
+
+                    done();
+                } catch (error) {
+                    done(error);
+                }
+            });
+        });
+
+        it("should rebase and inline css urls", function (done) {
+            // create the fake file
+            const fakeFile = new File({
+                path: path.resolve(__dirname, "index.html"),
+                contents: Buffer.from(`<html>
+    <link rel="stylesheet" href="/css/urls.css"/>
+</html>`),
+            });
+
+            // Create an instance of the plugin
+            const plugin = gulpBundleHtml({
+                handlebars: false,
+                baseUrl: __dirname,
+                bundleCss: true,
+                inlineCssUrls: 100,
+            });
+
+            // write the fake file to it
+            plugin.write(fakeFile);
+            plugin.end();
+
+            // wait for the file to come back out
+            plugin.once("data", function (file: any) {
+                try {
+                    // check the contents
+                    assert.equal(file.contents.toString("utf8"), `<html>
+    <style>.urls { background: url("data:image/png;base64,${Buffer.from("PNGDATA").toString("base64")}"); }
+@font-face { src: url("css/fonts/big.woff2") format("woff2"); }
+.abs { background: url(/img/dot.png) url(data:image/png;base64,AA==); }
+</style>
+</html>`);
+
+                    done();
+                } catch (error) {
+                    done(error);
+                }
+            });
+        });
+
+        it("should inline images referenced from the html", function (done) {
+            // create the fake file
+            const fakeFile = new File({
+                path: path.resolve(__dirname, "index.html"),
+                contents: Buffer.from(`<html>
+    <link rel="icon" href="/img/dot.png"/>
+    <img src="/img/icon.svg" alt="Dot" class="large">
+    <picture><source srcset="/img/dot.png 1x, /img/dot.png 2x"><img src="/img/missing.png" alt=""></picture>
+    <div class="icon icon-dot large"></div>
+</html>`),
+            });
+
+            // Create an instance of the plugin
+            const plugin = gulpBundleHtml({
+                handlebars: false,
+                baseUrl: __dirname,
+                inlineAssets: 1024,
+                minifyCssClasses: true,
+            });
+
+            // write the fake file to it
+            plugin.write(fakeFile);
+            plugin.end();
+
+            // wait for the file to come back out
+            plugin.once("data", function (file: any) {
+                try {
+                    const dataUri = `data:image/png;base64,${Buffer.from("PNGDATA").toString("base64")}`;
+
+                    // check the contents
+                    assert.equal(file.contents.toString("utf8"), `<html>
+    <link rel="icon" href="${dataUri}"/>
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 10 10" class="a b" role="img" aria-label="Dot"><circle class="c" cx="5" cy="5" r="5"/></svg>
+    <picture><source srcset="${dataUri} 1x, ${dataUri} 2x"><img src="/img/missing.png" alt=""></picture>
+    <div class="a c b"></div>
+</html>`);
+
+                    done();
+                } catch (error) {
+                    done(error);
+                }
+            });
+        });
+
+        it("should escape the attributes carried over to inline svgs", function (done) {
+            // create the fake file
+            const fakeFile = new File({
+                path: path.resolve(__dirname, "index.html"),
+                contents: Buffer.from(`<html>
+    <img src="/img/icon.svg" alt='say "hi" &amp; bye & more' id="icon">
+</html>`),
+            });
+
+            // Create an instance of the plugin
+            const plugin = gulpBundleHtml({
+                handlebars: false,
+                baseUrl: __dirname,
+                inlineAssets: 1024,
+            });
+
+            // write the fake file to it
+            plugin.write(fakeFile);
+            plugin.end();
+
+            // wait for the file to come back out
+            plugin.once("data", function (file: any) {
+                try {
+                    // check the contents
+                    assert.equal(file.contents.toString("utf8"), `<html>
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 10 10" class="icon" id="icon" role="img" aria-label="say &quot;hi&quot; &amp; bye &amp; more"><circle class="icon-dot" cx="5" cy="5" r="5"/></svg>
+</html>`);
+
+                    done();
+                } catch (error) {
+                    done(error);
+                }
+            });
+        });
+
+        it("should combine css and js into compatible groups", function (done) {
+            // create the fake file
+            const fakeFile = new File({
+                path: path.resolve(__dirname, "index.html"),
+                contents: Buffer.from(`<html>
+<head>
+    <link rel="stylesheet" href="/style-1.css"/>
+    <link rel="stylesheet" href="/style-2.css" media="print"/>
+    <link rel="stylesheet" href="/style-vars.css"/>
+    <script src="/script-1.js" defer></script>
+    <script src="/script-2.js"></script>
+    <script src="/script-3.js" type="module"></script>
+    <script src="/script-vars.js" defer></script>
+</head>
+<body>
+    <div></div>
+</body>
+</html>`),
+            });
+
+            // Create an instance of the plugin
+            const plugin = gulpBundleHtml({
+                handlebars: false,
+                baseUrl: __dirname,
+                bundleCss: true,
+                combineCss: true,
+                bundleJs: true,
+                combineJs: true,
+            });
+
+            // write the fake file to it
+            plugin.write(fakeFile);
+            plugin.end();
+
+            // wait for the file to come back out
+            plugin.once("data", function (file: any) {
+                try {
+                    // check the contents
+                    assert.equal(file.contents.toString("utf8"), `<html>
+<head>
+    <style>.css-class-1 {}</style>
+    <style media="print">.css-class-2 {}</style>
+    <style>:root { --color-surface: #fff; --color-text: #000; --vendor-accent: red; }
+.card { background: var(--color-surface); color: var(--color-text, var(--vendor-accent)); }</style>
+    \n    <script>cssClassName("js-class-2");</script>
+    <script type="module">cssClassName("js-class-3");</script>
+    <script src="/script-vars.js" defer></script>
+</head>
+<body>
+    <div></div>
+<script>cssClassName("js-class-1");</script></body>
+</html>`);
+
+                    done();
+                } catch (error) {
+                    done(error);
+                }
+            });
+        });
+
+        it("should only combine the scripts next to each other, keeping them in order", function (done) {
+            // create the fake file
+            const fakeFile = new File({
+                path: path.resolve(__dirname, "index.html"),
+                contents: Buffer.from(`<html>
+    <script src="/script-1.js"></script>
+    <script src="https://cdn.example.com/jquery.js"></script>
+    <script>window.config = {};</script>
+    <script src="/script-2.js"></script>
+    <script src="/script-3.js"></script>
+</html>`),
+            });
+
+            // Create an instance of the plugin
+            const plugin = gulpBundleHtml({
+                handlebars: false,
+                baseUrl: __dirname,
+                bundleJs: true,
+                combineJs: true,
+            });
+
+            // write the fake file to it
+            plugin.write(fakeFile);
+            plugin.end();
+
+            // wait for the file to come back out
+            plugin.once("data", function (file: any) {
+                try {
+                    const script3 = fs.readFileSync(path.resolve(__dirname, "script-3.js"), "utf8");
+
+                    // check the contents
+                    assert.equal(file.contents.toString("utf8"), `<html>
+    <script>cssClassName("js-class-1");</script>
+    <script src="https://cdn.example.com/jquery.js"></script>
+    <script>window.config = {};</script>
+    <script>cssClassName("js-class-2");\n;${script3}</script>
+    \n</html>`);
+
+                    done();
+                } catch (error) {
+                    done(error);
+                }
+            });
+        });
+
+        it("should keep the combined scripts apart, and each module in its own tag", function (done) {
+            // create the fake files, the js files do not exist on disk
+            const fakeFile = new File({
+                path: path.resolve(__dirname, "index.html"),
+                contents: Buffer.from(`<html>
+    <script src="/mapped.js"></script>
+    <script src="/iife.js"></script>
+    <script src="/module-1.js" type="module"></script>
+    <script src="/module-2.js" type="module"></script>
+</html>`),
+            });
+            const fakeJsFiles = [
+                ["mapped.js", "window.a = 1 //# sourceMappingURL=mapped.js.map"],
+                ["iife.js", "(function () { window.b = 2; })()"],
+                ["module-1.js", "const name = 1;"],
+                ["module-2.js", "const name = 2;"],
+            ].map(([fileName, contents]: string[]) => new File({
+                path: path.resolve(__dirname, fileName),
+                contents: Buffer.from(contents),
+            }));
+
+            // Create an instance of the plugin
+            const plugin = gulpBundleHtml({
+                handlebars: false,
+                baseUrl: __dirname,
+                bundleJs: true,
+                combineJs: true,
+            });
+
+            // write the fake files to it
+            plugin.write(fakeFile);
+            for (const fakeJsFile of fakeJsFiles) {
+                plugin.write(fakeJsFile);
+            }
+            plugin.end();
+
+            // wait for the files to come back out
+            const files: MapLike<string> = {};
+            plugin.on("data", function (file: any) {
+                files[path.basename(file.path)] = file.contents.toString("utf8");
+            });
+            plugin.on("end", function () {
+                try {
+                    // check the contents
+                    assert.equal(files["index.html"], `<html>
+    <script>window.a = 1 //# sourceMappingURL=mapped.js.map\n;(function () { window.b = 2; })()</script>
+    \n    <script type="module">const name = 1;</script>
+    <script type="module">const name = 2;</script>
+</html>`);
+
+                    done();
+                } catch (error) {
+                    done(error);
+                }
+            });
+        });
+
+        it("should only bundle and minify real tags", function (done) {
+            // create the fake file
+            const fakeFile = new File({
+                path: path.resolve(__dirname, "index.html"),
+                contents: Buffer.from(`<html>
+    <!-- <link rel="stylesheet" href="/style-2.css"/> -->
+    <link rel=stylesheet href=/style-1.css>
+    <template><script src="/script-2.js"></script></template>
+    <pre><link rel="stylesheet" href="/style-2.css"/></pre>
+    <div class=css-class-1></div>
+    <script>
+        const html = '<div class="css-class-1">';
+        cssClassName("css-class-1");
+    </script>
+</html>`),
+            });
+
+            // Create an instance of the plugin
+            const plugin = gulpBundleHtml({
+                handlebars: false,
+                baseUrl: __dirname,
+                bundleCss: true,
+                minifyCssClasses: true,
+                bundleJs: true,
+            });
+
+            // write the fake file to it
+            plugin.write(fakeFile);
+            plugin.end();
+
+            // wait for the file to come back out
+            plugin.once("data", function (file: any) {
+                try {
+                    // check the contents
+                    assert.equal(file.contents.toString("utf8"), `<html>
+    <!-- <link rel="stylesheet" href="/style-2.css"/> -->
+    <style>.a {}</style>
+    <template><script src="/script-2.js"></script></template>
+    <pre><link rel="stylesheet" href="/style-2.css"/></pre>
+    <div class=a></div>
+    <script>
+        const html = '<div class="css-class-1">';
+        "a";
+    </script>
+</html>`);
+
+                    done();
+                } catch (error) {
+                    done(error);
+                }
+            });
+        });
+
+        it("should escape the contents of inlined scripts and stylesheets", function (done) {
+            // create the fake files, the css and js files do not exist on disk
+            const fakeFile = new File({
+                path: path.resolve(__dirname, "index.html"),
+                contents: Buffer.from(`<html>
+    <link rel="stylesheet" href="/unsafe.css"/>
+    <script src="/unsafe.js"></script>
+</html>`),
+            });
+            const fakeCssFile = new File({
+                path: path.resolve(__dirname, "unsafe.css"),
+                contents: Buffer.from(`.a::after { content: "</style>"; } /* </STYLE> */`),
+            });
+            const fakeJsFile = new File({
+                path: path.resolve(__dirname, "unsafe.js"),
+                contents: Buffer.from(`const tag = "</script>" + '<!--' + \`<script>\`; // </script>
+const regex = /<!--/g;
+if (a </script>/.test(b)) {}`),
+            });
+
+            // Create an instance of the plugin
+            const plugin = gulpBundleHtml({
+                handlebars: false,
+                baseUrl: __dirname,
+                bundleCss: true,
+                bundleJs: true,
+            });
+
+            // write the fake files to it
+            plugin.write(fakeFile);
+            plugin.write(fakeCssFile);
+            plugin.write(fakeJsFile);
+            plugin.end();
+
+            // wait for the files to come back out
+            const files: MapLike<string> = {};
+            plugin.on("data", function (file: any) {
+                files[path.basename(file.path)] = file.contents.toString("utf8");
+            });
+            plugin.on("end", function () {
+                try {
+                    // check the contents
+                    assert.equal(files["index.html"], `<html>
+    <style>.a::after { content: "\\3c /style>"; } /* \\3c /STYLE> */</style>
+    <script>const tag = "<\\/script>" + '\\x3C!--' + \`\\x3Cscript>\`; // <\\/script>
+const regex = /\\x3C!--/g;
+if (a < /script>/.test(b)) {}</script>
+</html>`);
+
+                    done();
+                } catch (error) {
+                    done(error);
+                }
+            });
+        });
+
+        it("should add integrity hashes and a content security policy", function (done) {
+            // create the fake file
+            const fakeFile = new File({
+                path: path.resolve(__dirname, "index.html"),
+                contents: Buffer.from(`<html>
+<head>
+    <link rel="stylesheet" href="/style-1.css"/>
+    <link rel="stylesheet" href="https://cdn.example.com/library.css"/>
+    <script src="/script-1.js"></script>
+</head>
+<body style="margin: 0"></body>
+</html>`),
+            });
+
+            // Create an instance of the plugin
+            const plugin = gulpBundleHtml({
+                handlebars: false,
+                baseUrl: __dirname,
+                bundleJs: true,
+                subresourceIntegrity: true,
+                cspHashes: "meta",
+            });
+
+            // write the fake file to it
+            plugin.write(fakeFile);
+            plugin.end();
+
+            // wait for the file to come back out
+            plugin.once("data", function (file: any) {
+                try {
+                    const hash = (algorithm: string, contents: string) => `${algorithm}-${crypto.createHash(algorithm).update(contents).digest("base64")}`;
+                    const styleIntegrity = hash("sha384", fs.readFileSync(path.resolve(__dirname, "style-1.css"), "utf8"));
+                    const scriptHash = hash("sha256", fs.readFileSync(path.resolve(__dirname, "script-1.js"), "utf8"));
+                    const styleAttribHash = hash("sha256", "margin: 0");
+
+                    // check the contents
+                    assert.equal(file.contents.toString("utf8"), `<html>
+<head><meta http-equiv="Content-Security-Policy" content="script-src 'self' '${scriptHash}'; style-src 'self' https://cdn.example.com 'unsafe-hashes' '${styleAttribHash}'">
+    <link rel="stylesheet" href="/style-1.css" integrity="${styleIntegrity}" crossorigin="anonymous"/>
+    <link rel="stylesheet" href="https://cdn.example.com/library.css"/>
+    <script>cssClassName("js-class-1");</script>
+</head>
+<body style="margin: 0"></body>
+</html>`);
+
+                    done();
+                } catch (error) {
+                    done(error);
+                }
+            });
+        });
+
+        it("should hash the bytes of the files as they are for their integrity", function (done) {
+            // create the fake files, the stylesheet is in latin-1 and does not exist on disk
+            const fakeFile = new File({
+                path: path.resolve(__dirname, "index.html"),
+                contents: Buffer.from(`<html>
+    <link rel="stylesheet" href="/latin-1.css"/>
+</html>`),
+            });
+            const latin1Css = Buffer.from(`.quote::before { content: "\xab"; }`, "latin1");
+            const fakeCssFile = new File({
+                path: path.resolve(__dirname, "latin-1.css"),
+                contents: latin1Css,
+            });
+
+            // Create an instance of the plugin
+            const plugin = gulpBundleHtml({
+                handlebars: false,
+                baseUrl: __dirname,
+                subresourceIntegrity: true,
+            });
+
+            // write the fake files to it
+            plugin.write(fakeFile);
+            plugin.write(fakeCssFile);
+            plugin.end();
+
+            // wait for the files to come back out
+            const files: MapLike<string> = {};
+            plugin.on("data", function (file: any) {
+                files[path.basename(file.path)] = file.contents.toString("utf8");
+            });
+            plugin.on("end", function () {
+                try {
+                    const integrity = `sha384-${crypto.createHash("sha384").update(latin1Css).digest("base64")}`;
+
+                    // check the contents
+                    assert.equal(files["index.html"], `<html>
+    <link rel="stylesheet" href="/latin-1.css" integrity="${integrity}" crossorigin="anonymous"/>
+</html>`);
+
+                    done();
+                } catch (error) {
+                    done(error);
+                }
+            });
+        });
+
+        it("should skip, force and group tags marked with data-bundle", function (done) {
+            // create the fake file
+            const fakeFile = new File({
+                path: path.resolve(__dirname, "index.html"),
+                contents: Buffer.from(`<html>
+    <link rel="stylesheet" href="/style-1.css" data-bundle="inline"/>
+    <link rel="stylesheet" href="/style-2.css"/>
+    <script src="/script-1.js" data-bundle-group="vendor"></script>
+    <script src="/script-2.js" data-bundle="skip"></script>
+    <script src="/script-3.js"></script>
+</html>`),
+            });
+
+            // Create an instance of the plugin
+            const plugin = gulpBundleHtml({
+                handlebars: false,
+                baseUrl: __dirname,
+                bundleJs: true,
+                combineJs: true,
+            });
+
+            // write the fake file to it
+            plugin.write(fakeFile);
+            plugin.end();
+
+            // wait for the file to come back out
+            plugin.once("data", function (file: any) {
+                try {
+                    const script3 = fs.readFileSync(path.resolve(__dirname, "script-3.js"), "utf8");
+
+                    // check the contents
+                    assert.equal(file.contents.toString("utf8"), `<html>
+    <style>.css-class-1 {}</style>
+    <link rel="stylesheet" href="/style-2.css"/>
+    <script>cssClassName("js-class-1");</script>
+    <script src="/script-2.js"></script>
+    <script>${script3}</script>
+</html>`);
+
+                    done();
+                } catch (error) {
+                    done(error);
+                }
+            });
+        });
+
+        it("should register helpers from the options, the stream, and the built-in ones", function (done) {
+            // create the fake files, the helper does not exist on disk
+            const fakeFile = new File({
+                base: __dirname,
+                path: path.resolve(__dirname, "index.hbs"),
+                contents: Buffer.from(`<html>
+    <link rel="stylesheet" href="{{asset-url "/style-1.css"}}"/>
+    <p class="{{css-class "css-class-1"}}">{{shout "hello"}} {{greet "world"}}</p>
+    <script>const className = "{{css-class "css-class-1"}}";</script>
+    <style>{{inline-file "/style-2.css"}}</style>
+</html>`),
+            });
+            const fakeHelperFile = new File({
+                base: __dirname,
+                path: path.resolve(__dirname, "helpers", "shout.js"),
+                contents: Buffer.from(`module.exports = function (text) { return text.toUpperCase(); };`),
+            });
+
+            // Create an instance of the plugin
+            const plugin = gulpBundleHtml({
+                baseUrl: __dirname,
+                helpers: {
+                    greet: (name: string) => `hi ${name}`,
+                },
+                bundleCss: true,
+                minifyCssClasses: true,
+            });
+
+            // write the fake files to it
+            plugin.write(fakeHelperFile);
+            plugin.write(fakeFile);
+            plugin.end();
+
+            // wait for the file to come back out
+            plugin.once("data", function (file: any) {
+                try {
+                    // check the contents
+                    assert.equal(file.contents.toString("utf8"), `<html>
+    <style>.a {}</style>
+    <p class="a">HELLO hi world</p>
+    <script>const className = "a";</script>
+    <style>.css-class-2 {}</style>
+</html>`);
+
+                    done();
+                } catch (error) {
+                    done(error);
+                }
+            });
+        });
+
+        it("should name partials by their path relative to the glob base", function (done) {
+            // create the fake files
+            const fakeFile = new File({
+                base: __dirname,
+                path: path.resolve(__dirname, "index.hbs"),
+                contents: Buffer.from(`<html>{{> components/button}}{{> forms/button}}</html>`),
+            });
+            const fakeComponentsPartial = new File({
+                base: __dirname,
+                path: path.resolve(__dirname, "components", "_button.hbs"),
+                contents: Buffer.from(`<button></button>`),
+            });
+            const fakeFormsPartial = new File({
+                base: __dirname,
+                path: path.resolve(__dirname, "forms", "_button.hbs"),
+                contents: Buffer.from(`<input type="submit"/>`),
+            });
+
+            // Create an instance of the plugin
+            const plugin = gulpBundleHtml();
+
+            // write the fake files to it
+            plugin.write(fakeComponentsPartial);
+            plugin.write(fakeFormsPartial);
+            plugin.write(fakeFile);
+            plugin.end();
+
+            // wait for the file to come back out
+            plugin.once("data", function (file: any) {
+                try {
+                    // check the contents
+                    assert.equal(file.contents.toString("utf8"), `<html><button></button><input type="submit"/></html>`);
+
+                    done();
+                } catch (error) {
+                    done(error);
+                }
+            });
+        });
+
+        it("should raise an error for duplicate partial names", function (done) {
+            // create the fake files, both named "button" by the naming rule
+            const fakePartial = new File({
+                base: __dirname,
+                path: path.resolve(__dirname, "partials", "button.hbs"),
+                contents: Buffer.from(`<button></button>`),
+            });
+            const fakeDuplicatePartial = new File({
+                base: __dirname,
+                path: path.resolve(__dirname, "partials", "button.html"),
+                contents: Buffer.from(`<button></button>`),
+            });
+
+            // Create an instance of the plugin
+            const plugin = gulpBundleHtml({
+                partialNaming: "directory",
+            });
+
+            plugin.once("error", function (error: Error) {
+                try {
+                    assert.include(error.message, `Duplicate partial "button"`);
+
+                    done();
+                } catch (error) {
+                    done(error);
+                }
+            });
+
+            // write the fake files to it
+            plugin.write(fakePartial);
+            plugin.write(fakeDuplicatePartial);
+        });
+
+        it("should render pages inside of their layouts", function (done) {
+            // create the fake files
+            const fakeRootLayout = new File({
+                base: __dirname,
+                path: path.resolve(__dirname, "_root.hbs"),
+                contents: Buffer.from(`<html><head>{{#block "head"}}<link rel="stylesheet" href="/style-1.css"/>{{/block}}</head><body>{{#block "content"}}{{/block}}</body></html>`),
+            });
+            const fakeBaseLayout = new File({
+                base: __dirname,
+                path: path.resolve(__dirname, "_base.hbs"),
+                contents: Buffer.from(`{{#extends "root"}}{{#block "content"}}<header>{{title}}</header>{{#block "main"}}{{/block}}{{/block}}{{/extends}}`),
+            });
+            const fakeIndexFile = new File({
+                base: __dirname,
+                path: path.resolve(__dirname, "index.hbs"),
+                contents: Buffer.from(`---
+layout: base
+---
+{{#block "head" mode="append"}}<link rel="stylesheet" href="/style-2.css"/>{{/block}}
+{{#block "main"}}<p>Hello</p>{{/block}}
+`),
+            });
+            const fakeAboutFile = new File({
+                base: __dirname,
+                path: path.resolve(__dirname, "about.hbs"),
+                contents: Buffer.from(`{{#extends "base" title="About"}}{{#block "head" mode="prepend"}}<meta charset="utf-8">{{/block}}{{/extends}}`),
+            });
+
+            // Create an instance of the plugin
+            const plugin = gulpBundleHtml({
+                baseUrl: __dirname,
+                bundleCss: true,
+            });
+
+            // write the fake files to it
+            plugin.write(fakeRootLayout);
+            plugin.write(fakeBaseLayout);
+            plugin.write(fakeIndexFile);
+            plugin.write(fakeAboutFile);
+            plugin.end();
+
+            // wait for the files to come back out
+            const files: MapLike<string> = {};
+            plugin.on("data", function (file: any) {
+                files[path.basename(file.path)] = file.contents.toString("utf8");
+            });
+            plugin.on("end", function () {
+                try {
+                    // check the contents
+                    assert.equal(files["index.html"], `<html><head><style>.css-class-1 {}</style><style>.css-class-2 {}</style></head><body><header></header><p>Hello</p></body></html>`);
+                    assert.equal(files["about.html"], `<html><head><meta charset="utf-8"><style>.css-class-1 {}</style></head><body><header>About</header></body></html>`);
+
+                    done();
+                } catch (error) {
+                    done(error);
+                }
+            });
+        });
+
+        it("should render templates with their front-matter and data files", function (done) {
+            // create the fake files
+            const fakeFile = new File({
+                base: __dirname,
+                path: path.resolve(__dirname, "index.hbs"),
+                contents: Buffer.from(`---
+title: Home
+tags: [a, b]
+---
+<title>{{title}} | {{site.name}}</title><ul>{{#each items}}<li>{{this}}</li>{{/each}}</ul>{{tags.length}}`),
+            });
+            const fakeSiteData = new File({
+                base: __dirname,
+                path: path.resolve(__dirname, "data", "site.yml"),
+                contents: Buffer.from(`name: Example\ntitle: Untitled`),
+            });
+            const fakePageData = new File({
+                base: __dirname,
+                path: path.resolve(__dirname, "index.json"),
+                contents: Buffer.from(`{ "title": "Overridden", "items": ["one", "two"] }`),
+            });
+            const fakeOtherData = new File({
+                base: __dirname,
+                path: path.resolve(__dirname, "manifest.json"),
+                contents: Buffer.from(`{}`),
+            });
+
+            // Create an instance of the plugin
+            const plugin = gulpBundleHtml();
+
+            // write the fake files to it
+            plugin.write(fakeSiteData);
+            plugin.write(fakePageData);
+            plugin.write(fakeOtherData);
+            plugin.write(fakeFile);
+            plugin.end();
+
+            // wait for the files to come back out
+            const files: MapLike<string> = {};
+            plugin.on("data", function (file: any) {
+                files[path.basename(file.path)] = file.contents.toString("utf8");
+            });
+            plugin.on("end", function () {
+                try {
+                    // check the contents
+                    assert.equal(files["index.html"], `<title>Home | Example</title><ul><li>one</li><li>two</li></ul>2`);
+                    assert.equal(files["manifest.json"], `{}`);
+                    assert.notProperty(files, "index.json");
+                    assert.notProperty(files, "site.yml");
+
+                    done();
+                } catch (error) {
+                    done(error);
+                }
+            });
+        });
+
+        it("should pass along the JSON and YAML files that aren't template data untouched", function (done) {
+            // create the fake files, none of the data files are next to a template
+            const fakeFile = new File({
+                base: __dirname,
+                path: path.resolve(__dirname, "index.hbs"),
+                contents: Buffer.from(`<p>{{site.name}}</p>`),
+            });
+            const fakeSiteData = new File({
+                base: __dirname,
+                path: path.resolve(__dirname, "data", "site.yml"),
+                contents: Buffer.from(`name: Example`),
+            });
+            const fakeOtherFiles = [
+                ["tsconfig.json", `{ /* not valid JSON */ "compilerOptions": {} }`],
+                ["config.json", `{ "a": 1 }`],
+                ["config.yml", `a: 1`],
+            ].map(([fileName, contents]: string[]) => new File({
+                base: __dirname,
+                path: path.resolve(__dirname, fileName),
+                contents: Buffer.from(contents),
+            }));
+
+            // Create an instance of the plugin
+            const plugin = gulpBundleHtml();
+
+            // write the fake files to it
+            plugin.write(fakeSiteData);
+            for (const fakeOtherFile of fakeOtherFiles) {
+                plugin.write(fakeOtherFile);
+            }
+            plugin.write(fakeFile);
+            plugin.end();
+
+            // wait for the files to come back out
+            const files: MapLike<string> = {};
+            plugin.on("data", function (file: any) {
+                files[path.basename(file.path)] = file.contents.toString("utf8");
+            });
+            plugin.on("error", done);
+            plugin.on("end", function () {
+                try {
+                    // check the contents
+                    assert.equal(files["index.html"], `<p>Example</p>`);
+                    assert.equal(files["tsconfig.json"], `{ /* not valid JSON */ "compilerOptions": {} }`);
+                    assert.equal(files["config.json"], `{ "a": 1 }`);
+                    assert.equal(files["config.yml"], `a: 1`);
+                    assert.notProperty(files, "site.yml");
+
+                    done();
+                } catch (error) {
+                    done(error);
+                }
+            });
+        });
+
+        it("should render collections of pages with pagination", function (done) {
+            // create the fake files
+            const fakePostTemplate = new File({
+                base: __dirname,
+                path: path.resolve(__dirname, "blog", "post.hbs"),
+                contents: Buffer.from(`<h1>{{title}}</h1>{{content}}<a href="{{pagination.next}}"></a>`),
+            });
+            const fakeListTemplate = new File({
+                base: __dirname,
+                path: path.resolve(__dirname, "blog", "list.hbs"),
+                contents: Buffer.from(`{{#each items}}{{this}},{{/each}} {{pagination.page}}/{{pagination.total}} {{pagination.prev}} {{pagination.next}}`),
+            });
+            const fakePosts = ["first", "second"].map((slug: string) => new File({
+                base: __dirname,
+                path: path.resolve(__dirname, "blog", "posts", `${slug}.md`),
+                contents: Buffer.from(`---\ntitle: The ${slug} post\n---\nAbout ${slug}.`),
+            }));
+
+            // Create an instance of the plugin
+            const plugin = gulpBundleHtml({
+                collections: [
+                    { template: "blog/post", files: "blog/posts/*.md", path: "blog/{{name}}.html" },
+                    { template: "blog/list", items: ["a", "b", "c"], pageSize: 2, path: "blog/page/{{pagination.page}}.html", firstPagePath: "blog/index.html" },
+                ],
+            });
+
+            // write the fake files to it
+            plugin.write(fakePostTemplate);
+            plugin.write(fakeListTemplate);
+            fakePosts.forEach((fakePost: File) => plugin.write(fakePost));
+            plugin.end();
+
+            // wait for the files to come back out
+            const files: MapLike<string> = {};
+            plugin.on("data", function (file: any) {
+                files[file.relative.split(path.sep).join("/")] = file.contents.toString("utf8");
+            });
+            plugin.on("end", function () {
+                try {
+                    // check the contents
+                    assert.deepEqual(files, {
+                        "blog/first.html": `<h1>The first post</h1>About first.<a href="/blog/second.html"></a>`,
+                        "blog/second.html": `<h1>The second post</h1>About second.<a href=""></a>`,
+                        "blog/index.html": `a,b, 1/2  /blog/page/2.html`,
+                        "blog/page/2.html": `c, 2/2 /blog/index.html `,
+                    });
+
+                    done();
+                } catch (error) {
+                    done(error);
+                }
+            });
+        });
+
+        it("should report every error along with where it came from when keeping going", function (done) {
+            // create the fake files
+            const fakeHeadPartial = new File({
+                base: __dirname,
+                path: path.resolve(__dirname, "_head.hbs"),
+                contents: Buffer.from(`<title>{{title}}</title>\n<link rel="stylesheet" href="/missing.css"/>`),
+            });
+            const fakeIndexFile = new File({
+                base: __dirname,
+                path: path.resolve(__dirname, "index.hbs"),
+                contents: Buffer.from(`---\ntitle: Home\n---\n{{> head}}\n<p>Home</p>`),
+            });
+            const fakeAboutFile = new File({
+                base: __dirname,
+                path: path.resolve(__dirname, "about.hbs"),
+                contents: Buffer.from(`---\ntitle: About\n---\n<p>About</p>\n{{#if title}}{{/each}}`),
+            });
+            const fakeContactFile = new File({
+                base: __dirname,
+                path: path.resolve(__dirname, "contact.hbs"),
+                contents: Buffer.from(`<p>Contact</p>`),
+            });
+            const fakePageFile = new File({
+                base: __dirname,
+                path: path.resolve(__dirname, "page.hbs"),
+                contents: Buffer.from(`<link rel="stylesheet" href="/style-1.css"/>`),
+            });
+
+            // Create an instance of the plugin
+            const plugin = gulpBundleHtml({
+                baseUrl: __dirname,
+                bundleCss: true,
+                keepGoing: true,
+                renderTemplate: (template, templatePath, callback) => {
+                    if (templatePath === "contact") {
+                        callback(new Error("No data for the contact page"));
+                    } else {
+                        template(templatePath + ".html", {});
+                        callback();
+                    }
+                },
+            });
+
+            // write the fake files to it
+            plugin.write(fakeHeadPartial);
+            plugin.write(fakeIndexFile);
+            plugin.write(fakeAboutFile);
+            plugin.write(fakeContactFile);
+            plugin.write(fakePageFile);
+            plugin.end();
+
+            // wait for the files and the errors to come back out
+            const files: string[] = [];
+            let aggregateError: BuildError | null = null;
+            plugin.on("data", function (file: any) {
+                files.push(file.relative);
+            });
+            plugin.on("error", function (error: BuildError) {
+                aggregateError = error;
+            });
+            plugin.on("end", function () {
+                try {
+                    assert.deepEqual(files, ["page.html"]);
+                    assert.lengthOf(aggregateError.errors, 3);
+
+                    const errors: MapLike<BuildError> = {};
+                    for (const error of aggregateError.errors) {
+                        errors[path.basename(error.fileName)] = error;
+                        assert.include(aggregateError.message, error.message);
+                    }
+
+                    // The missing stylesheet is traced back to the partial that it is in
+                    assert.include(errors["_head.hbs"].message, `Could not load "/missing.css"`);
+                    assert.include(errors["_head.hbs"].message, `on line 2, column 1`);
+                    assert.equal(errors["_head.hbs"].lineNumber, 2);
+                    assert.equal(errors["_head.hbs"].column, 1);
+                    assert.equal(errors["_head.hbs"].assetPath, path.resolve(__dirname, "missing.css"));
+
+                    // The lines of the front-matter count too
+                    assert.equal(errors["about.hbs"].lineNumber, 5);
+                    assert.include(errors["contact.hbs"].message, "No data for the contact page");
+
+                    done();
+                } catch (error) {
+                    done(error);
+                }
+            });
+        });
+        it("should only render the pages again whose dependencies changed, when given a cache", function (done) {
+            const cache: BuildCache = {};
+            let rendered: string[] = [];
+
+            const build = (header: string, css: string, withAbout: boolean = true) => {
+                rendered = [];
+
+                // create the fake files
+                const fakeHeaderPartial = new File({
+                    base: __dirname,
+                    path: path.resolve(__dirname, "_header.hbs"),
+                    contents: Buffer.from(header),
+                });
+                const fakeIndexFile = new File({
+                    base: __dirname,
+                    path: path.resolve(__dirname, "index.hbs"),
+                    contents: Buffer.from(`{{track "index"}}{{> header}}<link rel="stylesheet" href="/style-cached.css"/>`),
+                });
+                const fakeAboutFile = new File({
+                    base: __dirname,
+                    path: path.resolve(__dirname, "about.hbs"),
+                    contents: Buffer.from(`{{track "about"}}<p>About</p>`),
+                });
+                const fakeCssFile = new File({
+                    base: __dirname,
+                    path: path.resolve(__dirname, "style-cached.css"),
+                    contents: Buffer.from(css),
+                });
+
+                // Create an instance of the plugin
+                const plugin = gulpBundleHtml({
+                    baseUrl: __dirname,
+                    bundleCss: true,
+                    cache,
+                    helpers: {
+                        track: (name: string) => {
+                            rendered.push(name);
+                            return "";
+                        },
+                    },
+                });
+
+                // write the fake files to it
+                plugin.write(fakeHeaderPartial);
+                plugin.write(fakeIndexFile);
+                if (withAbout) {
+                    plugin.write(fakeAboutFile);
+                }
+                plugin.write(fakeCssFile);
+                plugin.end();
+
+                // wait for the files to come back out
+                return new Promise<MapLike<string>>((resolve, reject) => {
+                    const files: MapLike<string> = {};
+                    plugin.on("data", (file: any) => files[file.relative] = file.contents.toString("utf8"));
+                    plugin.on("error", reject);
+                    plugin.on("end", () => resolve(files));
+                });
+            };
+
+            build("<h1>Hello</h1>", ".a {}")
+                .then((files: MapLike<string>) => {
+                    assert.sameMembers(rendered, ["index", "about"]);
+                    assert.equal(files["index.html"], "<h1>Hello</h1><style>.a {}</style>");
+                    return build("<h1>Hello</h1>", ".a {}");
+                })
+                .then((files: MapLike<string>) => {
+                    // Nothing changed, but the pages are still output
+                    assert.sameMembers(rendered, []);
+                    assert.equal(files["index.html"], "<h1>Hello</h1><style>.a {}</style>");
+                    assert.equal(files["about.html"], "<p>About</p>");
+                    return build("<h1>Welcome</h1>", ".a {}");
+                })
+                .then((files: MapLike<string>) => {
+                    assert.sameMembers(rendered, ["index"]);
+                    assert.equal(files["index.html"], "<h1>Welcome</h1><style>.a {}</style>");
+                    return build("<h1>Welcome</h1>", ".b {}");
+                })
+                .then((files: MapLike<string>) => {
+                    assert.sameMembers(rendered, ["index"]);
+                    assert.equal(files["index.html"], "<h1>Welcome</h1><style>.b {}</style>");
+                    return build("<h1>Welcome</h1>", ".b {}", false);
+                })
+                .then((files: MapLike<string>) => {
+                    // The removed page is forgotten, and the templates are kept as their syntax trees
+                    assert.sameMembers(rendered, []);
+                    assert.notProperty(files, "about.html");
+                    assert.sameMembers(Object.keys(cache.pages || {}), [`${path.resolve(__dirname, "index.hbs")}\0index.html`]);
+                    assert.isNotEmpty(cache.templates);
+                    assert.deepEqual(Object.values(cache.templates || {}).map((template: any) => template.type), Object.keys(cache.templates || {}).map(() => "Program"));
+                    done();
+                })
+                .catch(done);
+        });
+        it("should only read the files shared by pages once, a few at a time", function (done) {
+            // Count the reads from disk, and how many happen at the same time
+            const readFile = fs.promises.readFile;
+            const reads: MapLike<number> = {};
+            let running = 0;
+            let maxRunning = 0;
+            (fs.promises as any).readFile = function (filePath: string) {
+                reads[path.basename(filePath)] = (reads[path.basename(filePath)] || 0) + 1;
+                maxRunning = Math.max(maxRunning, ++running);
+                return readFile.apply(this, arguments).then((contents: any) => {
+                    --running;
+                    return contents;
+                });
+            };
+
+            // Create an instance of the plugin
+            const plugin = gulpBundleHtml({
+                handlebars: false,
+                baseUrl: __dirname,
+                bundleCss: true,
+                bundleJs: true,
+                maxConcurrentReads: 2,
+            });
+
+            // write the fake files to it
+            for (let i = 0; i < 20; ++i) {
+                plugin.write(new File({
+                    base: __dirname,
+                    path: path.resolve(__dirname, `page-${i}.html`),
+                    contents: Buffer.from(HTML_ALL_IN),
+                }));
+            }
+            plugin.end();
+
+            // wait for the files to come back out
+            const files: string[] = [];
+            plugin.on("data", function (file: any) {
+                files.push(file.contents.toString("utf8"));
+            });
+            plugin.on("end", function () {
+                (fs.promises as any).readFile = readFile;
+
+                try {
+                    assert.lengthOf(files, 20);
+                    assert.include(files[19], "<style>.css-class-1 {}</style>");
+                    assert.deepEqual(reads, { "style-1.css": 1, "style-2.css": 1, "script-1.js": 1, "script-2.js": 1 });
+                    assert.equal(maxRunning, 2);
+
+                    done();
+                } catch (error) {
+                    done(error);
+                }
+            });
+        });
+        it("should minify the html", function (done) {
+            // create the fake file
+            const fakeFile = new File({
+                path: path.resolve(__dirname, "index.html"),
+                contents: Buffer.from(`<!DOCTYPE html>
+<html>
+    <head>
+        <!-- a comment -->
+        <!--[if IE]><p>IE</p><![endif]-->
+        <link rel="stylesheet" href="/style-1.css"/>
+    </head>
+    <body>
+        <!-- keep: license -->
+        <p class="css-class-2   css-class-1 css-class-2">Hello,   <b>world</b> !</p>
+        <pre>  keep
+    this </pre>
+        <textarea>  and   this </textarea>
+        <input type="checkbox" checked="checked" disabled="" data-x="a b"/>
+    </body>
+</html>`),
+            });
+
+            // Create an instance of the plugin
+            const plugin = gulpBundleHtml({
+                handlebars: false,
+                baseUrl: __dirname,
+                bundleCss: true,
+                minifyCssClasses: true,
+                minifyHtml: true,
+            });
+
+            // write the fake file to it
+            plugin.write(fakeFile);
+            plugin.end();
+
+            // wait for the file to come back out
+            plugin.once("data", function (file: any) {
+                try {
+                    // check the contents
+                    assert.equal(file.contents.toString("utf8"), `<!DOCTYPE html><html><head><!--[if IE]><p>IE</p><![endif]--><style>.b {}</style></head>`
+                        + `<body><!-- keep: license --><p class="a b">Hello, <b>world</b> !</p><pre>  keep
+    this </pre><textarea>  and   this </textarea> <input type=checkbox checked disabled data-x="a b"/></body></html>`);
+
+                    done();
+                } catch (error) {
+                    done(error);
+                }
+            });
+        });
+
+        it("should minify the css and js bundled into the page", function (done) {
+            // create the fake files, the css and js files do not exist on disk
+            const fakeFile = new File({
+                path: path.resolve(__dirname, "index.html"),
+                contents: Buffer.from(`<html>
+    <link rel="stylesheet" href="/virtual.css"/>
+    <script src="/virtual.js"></script>
+</html>`),
+            });
+            const fakeCssFile = new File({
+                path: path.resolve(__dirname, "virtual.css"),
+                contents: Buffer.from(`/*! license */
+/* a comment */
+.a, .b > .c {
+    color: #FFCC00;
+    margin: 0px 0.5em calc(1px - 0px);
+}
+.d { content: "  0px  "; }
+.d { padding: 0; }
+.e { padding: 0; }
+.f { flex: 1 1 0px; -ms-flex-basis: 0px; margin: 0px; }
+`),
+            });
+            const fakeJsFile = new File({
+                path: path.resolve(__dirname, "virtual.js"),
+                contents: Buffer.from(`// a comment
+const a = 1 + +b;
+const c = \`\${ a }  \${ /re/.source }\`
+let d = a
+++d
+`),
+            });
+
+            // Create an instance of the plugin
+            const plugin = gulpBundleHtml({
+                handlebars: false,
+                baseUrl: __dirname,
+                bundleCss: true,
+                bundleJs: true,
+                minifyInlineCss: true,
+                minifyInlineJs: true,
+            });
+
+            // write the fake files to it
+            plugin.write(fakeFile);
+            plugin.write(fakeCssFile);
+            plugin.write(fakeJsFile);
+            plugin.end();
+
+            // wait for the files to come back out
+            const files: MapLike<string> = {};
+            plugin.on("data", function (file: any) {
+                files[path.basename(file.path)] = file.contents.toString("utf8");
+            });
+            plugin.on("end", function () {
+                try {
+                    // check the contents
+                    assert.equal(files["index.html"], `<html>
+    <style>/*! license */.a,.b>.c{color:#fc0;margin:0 .5em calc(1px - 0px)}.d{content:"  0px  ";padding:0}.e{padding:0}.f{flex:1 1 0px;-ms-flex-basis:0px;margin:0}</style>
+    <script>const a=1+ +b;const c=\`\${a}  \${/re/.source}\`
+let d=a
+++d</script>
+</html>`);
+                    assert.include(files["virtual.css"], "/* a comment */");
+
+                    done();
+                } catch (error) {
+                    done(error);
+                }
+            });
+        });
+    });
+
+    describe("in streaming mode", function () {
+        it("should read streamed files in and stream the output back out", function (done) {
+            const createStream = (contents: string) => {
+                const stream = new PassThrough();
+                // Written later, to make sure the plugin waits for the contents
+                setTimeout(() => stream.end(contents), 10);
+                return stream;
+            };
+
+            // create the fake files
+            const fakeFile = new File({
+                path: path.resolve(__dirname, "index.html"),
+                contents: createStream(HTML_CSS_IN),
+            });
+            const fakeCssFile = new File({
+                path: path.resolve(__dirname, "style-1.css"),
+                contents: createStream(".css-class-1 { color: red; }"),
+            });
+
+            // Create an instance of the plugin
+            const plugin = gulpBundleHtml({
+                handlebars: false,
+                baseUrl: __dirname,
+                bundleCss: true,
+            });
+
+            // write the fake files to it
+            plugin.write(fakeFile);
+            plugin.write(fakeCssFile);
+            plugin.end();
+
+            // wait for the files to come back out, and read them
+            const reads: Promise<[string, string]>[] = [];
+            plugin.on("data", function (file: any) {
+                assert.isTrue(file.isStream());
+                reads.push(new Promise((resolve) => {
+                    const chunks: Buffer[] = [];
+                    file.contents.on("data", (chunk: Buffer) => chunks.push(chunk));
+                    file.contents.on("end", () => resolve([path.basename(file.path), Buffer.concat(chunks).toString("utf8")]));
+                }));
+            });
+            plugin.on("end", function () {
+                Promise.all(reads).then((entries: [string, string][]) => {
+                    const files: MapLike<string> = {};
+                    for (const [name, contents] of entries) {
+                        files[name] = contents;
+                    }
+
+                    // check the contents
+                    assert.equal(files["index.html"], `<html>
+    <style>.css-class-1 { color: red; }</style>
+    <style>.css-class-2 {}</style>
+    <div class="css-class-1 css-class-2"/>
+</html>`);
+                    assert.equal(files["style-1.css"], ".css-class-1 { color: red; }");
+
+                    done();
+                }).catch(done);
+            });
+        });
     });
 });